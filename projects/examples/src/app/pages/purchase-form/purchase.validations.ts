@@ -10,7 +10,12 @@ export const createPurchaseValidationSuite = (
   swapiService: SwapiService
 ): NgxTypedVestSuite<PurchaseFormModel> => {
   return staticSuite(
-    (model: PurchaseFormModel, field?: FormFieldName<PurchaseFormModel>) => {
+    (
+      model: PurchaseFormModel,
+      field?: FormFieldName<PurchaseFormModel>,
+      _group?: string,
+      signal?: AbortSignal
+    ) => {
       only(field);
 
       test(ROOT_FORM, 'Brecht is not 30 anymore', () => {
@@ -23,16 +28,21 @@ export const createPurchaseValidationSuite = (
       });
 
       omitWhen(!model.userId || (model.userId as string).trim() === '', () => {
-        test('userId', 'userId is already taken', async ({ signal }) => {
-          const exists = await lastValueFrom(
-            swapiService
-              .userIdExists(model.userId as string)
-              .pipe(takeUntil(fromEvent(signal, 'abort')))
-          );
-          if (exists) {
-            return Promise.reject();
+        test(
+          'userId',
+          'userId is already taken',
+          async ({ signal: testSignal }) => {
+            // The suite signal aborts when userId changes again or the form is destroyed
+            const exists = await lastValueFrom(
+              swapiService
+                .userIdExists(model.userId as string)
+                .pipe(takeUntil(fromEvent(signal ?? testSignal, 'abort')))
+            );
+            if (exists) {
+              return Promise.reject();
+            }
           }
-        });
+        );
       });
 
       test('firstName', 'First name is required', () => {
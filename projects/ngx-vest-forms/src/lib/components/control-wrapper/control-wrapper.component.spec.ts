@@ -1,9 +1,16 @@
 import { Component, signal } from '@angular/core';
+import { FormControl, FormGroup, ReactiveFormsModule } from '@angular/forms';
 import { fireEvent, render, screen, waitFor } from '@testing-library/angular';
 import userEvent from '@testing-library/user-event';
 import { enforce, only, staticSuite, test as vestTest, warn } from 'vest';
 import { describe, expect, it } from 'vitest';
+import type {
+  NgxDisplayModeContext,
+  NgxDisplayModePredicate,
+} from '../../directives/form-error-display.directive';
 import { NgxVestForms } from '../../exports';
+import { provideNgxVestForms } from '../../tokens/config.token';
+import { attachVestSuite } from '../../utils/reactive-forms.utils';
 
 // Test validation suite for the component tests
 type TestModel = {
@@ -1385,5 +1392,415 @@ describe('ScControlWrapperComponent', () => {
       );
       expect(warning).toBeInTheDocument();
     });
+
+    it('should show warnings after blur, then hide them live in on-blur-then-live mode', async () => {
+      @Component({
+        imports: [NgxVestForms],
+        template: `
+          <form
+            ngxVestForm
+            [suite]="suite"
+            [formValue]="model()"
+            (formValueChange)="model.set($event)"
+          >
+            <ngx-control-wrapper [warningDisplayMode]="'on-blur-then-live'">
+              <label for="username">Username</label>
+              <input
+                id="username"
+                name="username"
+                [ngModel]="model().username"
+              />
+            </ngx-control-wrapper>
+          </form>
+        `,
+      })
+      class BlurThenLiveWarningComponent {
+        model = signal({ username: '' });
+        suite = warningOnlySuite;
+      }
+
+      await render(BlurThenLiveWarningComponent);
+      const usernameInput = screen.getByLabelText('Username');
+
+      await userEvent.type(usernameInput, 'abc');
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(
+        screen.queryByText('Username is too short for comfort')
+      ).not.toBeInTheDocument();
+
+      await userEvent.tab();
+      await screen.findByText('Username is too short for comfort');
+
+      await userEvent.type(usernameInput, 'def');
+      await waitFor(() => {
+        expect(
+          screen.queryByText('Username is too short for comfort')
+        ).not.toBeInTheDocument();
+      });
+    });
+  });
+
+  describe('Reactive forms', () => {
+    const reactiveSuite = staticSuite(
+      (data: TestModel = {}, field?: string) => {
+        only(field);
+        vestTest('username', 'Username is required', () => {
+          enforce(data.username).isNotBlank();
+        });
+        vestTest('username', 'Username is too short for comfort', () => {
+          warn();
+          enforce(data.username ?? '').longerThanOrEquals(5);
+        });
+      }
+    );
+
+    @Component({
+      imports: [NgxVestForms, ReactiveFormsModule],
+      template: `
+        <form [formGroup]="form">
+          <ngx-control-wrapper [warningDisplayMode]="'always'">
+            <label for="username">Username</label>
+            <input id="username" formControlName="username" />
+          </ngx-control-wrapper>
+        </form>
+      `,
+    })
+    class ReactiveWrapperComponent {
+      readonly form = new FormGroup({ username: new FormControl('') });
+      readonly vest = attachVestSuite(this.form, reactiveSuite);
+    }
+
+    it('should render errors of formControlName controls', async () => {
+      await render(ReactiveWrapperComponent);
+      const usernameInput = screen.getByLabelText('Username');
+
+      await userEvent.click(usernameInput);
+      await userEvent.tab();
+
+      expect(
+        await screen.findByText('Username is required')
+      ).toBeInTheDocument();
+      await waitFor(() => {
+        expect(usernameInput).toHaveAttribute('aria-invalid', 'true');
+      });
+    });
+
+    it('should render warnings of valid formControlName controls', async () => {
+      await render(ReactiveWrapperComponent);
+
+      await userEvent.type(screen.getByLabelText('Username'), 'abc');
+
+      expect(
+        await screen.findByText('Username is too short for comfort')
+      ).toBeInTheDocument();
+      expect(screen.queryByText('Username is required')).toBeNull();
+    });
+  });
+
+  describe('Custom message templates', () => {
+    const templateSuite = staticSuite(
+      (data: TestModel = {}, field?: string) => {
+        only(field);
+        vestTest('username', 'Username is required', () => {
+          enforce(data.username ?? '').isNotBlank();
+        });
+        vestTest('username', 'Username looks weak', () => {
+          warn();
+          enforce(data.username ?? '').longerThan(4);
+        });
+        vestTest('email', 'Email must be available', async () => {
+          await new Promise((resolve) => setTimeout(resolve, 800));
+        });
+      }
+    );
+
+    @Component({
+      imports: [NgxVestForms],
+      template: `
+        <form
+          ngxVestForm
+          [suite]="suite"
+          [formValue]="model()"
+          (formValueChange)="model.set($event)"
+        >
+          <ngx-control-wrapper>
+            <label for="username">Username</label>
+            <input id="username" name="username" [ngModel]="model().username" />
+            <ng-template ngxErrorTemplate let-errors>
+              <p class="ds-error">{{ errors.length }} error: {{ errors[0] }}</p>
+            </ng-template>
+            <ng-template ngxWarningTemplate let-warnings>
+              <p class="ds-warning">Tip: {{ warnings.join(', ') }}</p>
+            </ng-template>
+          </ngx-control-wrapper>
+          <ngx-control-wrapper>
+            <label for="email">Email</label>
+            <input id="email" name="email" [ngModel]="model().email" />
+            <ng-template ngxPendingTemplate>
+              <span class="ds-spinner">Checking…</span>
+            </ng-template>
+          </ngx-control-wrapper>
+        </form>
+      `,
+    })
+    class TemplateWrapperComponent {
+      model = signal({ username: '', email: '' });
+      suite = templateSuite;
+    }
+
+    it('should render errors through ngxErrorTemplate inside the error region', async () => {
+      await render(TemplateWrapperComponent);
+      const usernameInput = screen.getByLabelText('Username');
+
+      await userEvent.click(usernameInput);
+      await userEvent.tab();
+
+      const message = await screen.findByText('1 error: Username is required');
+      const region = message.closest('[role="status"]');
+      expect(message).toHaveClass('ds-error');
+      expect(region?.id).toMatch(/^ngx-control-wrapper-\d+-error$/);
+      expect(region?.querySelector('ul')).toBeNull();
+      await waitFor(() => {
+        expect(usernameInput).toHaveAttribute('aria-invalid', 'true');
+        expect(usernameInput.getAttribute('aria-describedby')).toContain(
+          region?.id
+        );
+      });
+    });
+
+    it('should render warnings through ngxWarningTemplate', async () => {
+      await render(TemplateWrapperComponent);
+
+      await userEvent.type(screen.getByLabelText('Username'), 'abc');
+      await userEvent.tab();
+
+      const message = await screen.findByText('Tip: Username looks weak');
+      expect(message.closest('[role="status"]')?.id).toMatch(
+        /^ngx-control-wrapper-\d+-warning$/
+      );
+    });
+
+    it('should render the pending state through ngxPendingTemplate after the delay', async () => {
+      await render(TemplateWrapperComponent);
+      const emailInput = screen.getByLabelText('Email');
+
+      await userEvent.type(emailInput, 'jane@example.com');
+      await userEvent.tab();
+
+      expect(screen.queryByText('Checking…')).toBeNull();
+      const pending = await screen.findByText(
+        'Checking…',
+        {},
+        { timeout: 1500 }
+      );
+      expect(pending.closest('[role="status"]')?.id).toMatch(
+        /^ngx-control-wrapper-\d+-pending$/
+      );
+      expect(screen.queryByText('Validating…')).toBeNull();
+    });
+  });
+
+  describe('Display mode predicates', () => {
+    it('should show errors when a per-wrapper predicate allows it', async () => {
+      const contexts: NgxDisplayModeContext[] = [];
+      const afterThreeChars: NgxDisplayModePredicate = (context) => {
+        contexts.push(context);
+        return String(context.control?.value ?? '').length > 3;
+      };
+
+      @Component({
+        imports: [NgxVestForms],
+        template: `
+          <form
+            ngxVestForm
+            [suite]="suite"
+            [formValue]="model()"
+            (formValueChange)="model.set($event)"
+          >
+            <ngx-control-wrapper [errorDisplayMode]="displayMode">
+              <label for="email">Email</label>
+              <input id="email" name="email" [ngModel]="model().email" />
+            </ngx-control-wrapper>
+          </form>
+        `,
+      })
+      class PredicateComponent {
+        model = signal({ email: '' });
+        suite = testSuite;
+        displayMode = afterThreeChars;
+      }
+
+      await render(PredicateComponent);
+      const emailInput = screen.getByLabelText('Email');
+
+      await userEvent.type(emailInput, 'abc');
+      await userEvent.tab();
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(
+        screen.queryByText('Please provide a valid email')
+      ).not.toBeInTheDocument();
+
+      await userEvent.type(emailInput, 'd');
+      await screen.findByText('Please provide a valid email');
+
+      const context = contexts.at(-1);
+      expect(context?.kind).toBe('error');
+      expect(context?.fieldPath).toBe('email');
+      expect(context?.messages).toEqual(['Please provide a valid email']);
+      expect(context?.controlState.isTouched).toBe(true);
+      expect(context?.form).not.toBeNull();
+    });
+
+    it('should ask a predicate with kind success whether a valid field is confirmed', async () => {
+      const contexts: NgxDisplayModeContext[] = [];
+      const errorsOnly: NgxDisplayModePredicate = (context) => {
+        contexts.push(context);
+        return context.kind !== 'success' && context.controlState.isTouched;
+      };
+
+      @Component({
+        imports: [NgxVestForms],
+        template: `
+          <form
+            ngxVestForm
+            [suite]="suite"
+            [formValue]="model()"
+            (formValueChange)="model.set($event)"
+          >
+            <ngx-control-wrapper
+              successMessage="Email looks good"
+              [errorDisplayMode]="displayMode"
+            >
+              <label for="email">Email</label>
+              <input id="email" name="email" [ngModel]="model().email" />
+            </ngx-control-wrapper>
+          </form>
+        `,
+      })
+      class SuccessPredicateComponent {
+        model = signal({ email: '' });
+        suite = testSuite;
+        displayMode = errorsOnly;
+      }
+
+      await render(SuccessPredicateComponent);
+      const emailInput = screen.getByLabelText('Email');
+
+      await userEvent.type(emailInput, 'jane@example.com');
+      await userEvent.tab();
+
+      await waitFor(() => {
+        expect(contexts.some(({ kind }) => kind === 'success')).toBe(true);
+      });
+      const success = contexts.find(({ kind }) => kind === 'success');
+      expect(success?.messages).toEqual([]);
+      expect(screen.queryByText('Email looks good')).not.toBeInTheDocument();
+      expect(emailInput.closest('.ngx-control-wrapper')).not.toHaveClass(
+        'ngx-control-wrapper--valid'
+      );
+    });
+
+    it('should accept a predicate through provideNgxVestForms', async () => {
+      await render(TestFormComponent, {
+        providers: [
+          provideNgxVestForms({
+            errorDisplayMode: ({ controlState }) => controlState.isDirty,
+          }),
+        ],
+      });
+
+      await userEvent.type(screen.getByLabelText('Email'), 'jane');
+
+      expect(
+        await screen.findByText('Please provide a valid email')
+      ).toBeInTheDocument();
+    });
+  });
+
+  describe('Success feedback', () => {
+    @Component({
+      imports: [NgxVestForms],
+      template: `
+        <form
+          ngxVestForm
+          [suite]="suite"
+          [formValue]="model()"
+          (formValueChange)="model.set($event)"
+        >
+          <ngx-control-wrapper successMessage="Email looks good">
+            <label for="email">Email</label>
+            <input id="email" name="email" [ngModel]="model().email" />
+          </ngx-control-wrapper>
+          <ngx-control-wrapper>
+            <label for="username">Username</label>
+            <input id="username" name="username" [ngModel]="model().username" />
+          </ngx-control-wrapper>
+        </form>
+      `,
+    })
+    class SuccessComponent {
+      model = signal({ email: '', username: '' });
+      suite = testSuite;
+    }
+
+    it('should confirm a valid field after blur in a polite region', async () => {
+      await render(SuccessComponent);
+      const emailInput = screen.getByLabelText('Email');
+      const wrapper = emailInput.closest('.ngx-control-wrapper');
+
+      await userEvent.type(emailInput, 'jane@example.com');
+      expect(screen.queryByText('Email looks good')).not.toBeInTheDocument();
+      expect(wrapper).not.toHaveClass('ngx-control-wrapper--valid');
+
+      await userEvent.tab();
+
+      const message = await screen.findByText('Email looks good');
+      expect(message).toHaveAttribute('role', 'status');
+      expect(message).toHaveAttribute('aria-live', 'polite');
+      expect(wrapper).toHaveClass('ngx-control-wrapper--valid');
+      expect(emailInput.getAttribute('aria-describedby')).toContain(message.id);
+    });
+
+    it('should not confirm invalid fields and add the valid class without a message', async () => {
+      await render(SuccessComponent);
+      const emailInput = screen.getByLabelText('Email');
+      const usernameInput = screen.getByLabelText('Username');
+
+      await userEvent.type(emailInput, 'jane');
+      await userEvent.type(usernameInput, 'jane');
+      await userEvent.tab();
+
+      await screen.findByText('Please provide a valid email');
+      expect(screen.queryByText('Email looks good')).not.toBeInTheDocument();
+      expect(emailInput.closest('.ngx-control-wrapper')).not.toHaveClass(
+        'ngx-control-wrapper--valid'
+      );
+      await waitFor(() => {
+        expect(usernameInput.closest('.ngx-control-wrapper')).toHaveClass(
+          'ngx-control-wrapper--valid'
+        );
+      });
+    });
+  });
+
+  describe('Global configuration', () => {
+    it('should use display and ARIA defaults from provideNgxVestForms', async () => {
+      await render(TestFormComponent, {
+        providers: [
+          provideNgxVestForms({
+            errorDisplayMode: 'on-dirty',
+            ariaAssociationMode: 'none',
+          }),
+        ],
+      });
+      const emailInput = screen.getByLabelText('Email');
+
+      await userEvent.type(emailInput, 'jane');
+
+      // Shown while the field is still focused, without blur or submit
+      await screen.findByText('Please provide a valid email');
+      expect(emailInput).not.toHaveAttribute('aria-invalid');
+      expect(emailInput).not.toHaveAttribute('aria-describedby');
+    });
   });
 });
@@ -1,8 +1,10 @@
+import { NgTemplateOutlet } from '@angular/common';
 import {
   AfterContentInit,
   ChangeDetectionStrategy,
   Component,
   computed,
+  contentChild,
   DestroyRef,
   effect,
   ElementRef,
@@ -12,6 +14,15 @@ import {
   signal,
 } from '@angular/core';
 import { FormErrorDisplayDirective } from '../../directives/form-error-display.directive';
+import {
+  ErrorTemplateDirective,
+  PendingTemplateDirective,
+  WarningTemplateDirective,
+} from '../../directives/message-templates.directive';
+import {
+  DEFAULT_PENDING_DEBOUNCE,
+  NGX_VEST_FORMS_CONFIG,
+} from '../../tokens/config.token';
 import {
   AriaAssociationMode,
   mergeAriaDescribedBy,
@@ -45,6 +56,7 @@ let nextUniqueId = 0;
  * - `'on-blur'`: Show errors only after blur
  * - `'on-submit'`: Show errors only after form submit
  * - `'on-dirty'`: Show errors as soon as the field value changes
+ * - `'on-blur-then-live'`: Show errors after blur or submit, then update them on every keystroke until fixed
  * - `'always'`: Show errors immediately, even on pristine fields
  *
  * ```html
@@ -58,6 +70,7 @@ let nextUniqueId = 0;
  * - `'on-validated-or-touch'` (default): Show warnings after validation runs or touch
  * - `'on-touch'`: Show warnings only after touch/blur
  * - `'on-dirty'`: Show warnings as soon as the field value changes
+ * - `'on-blur-then-live'`: Show warnings after blur or submit, then update them live until gone
  * - `'always'`: Show warnings immediately, even on pristine fields
  *
  * ```html
@@ -66,8 +79,34 @@ let nextUniqueId = 0;
  * </ngx-control-wrapper>
  * ```
  *
+ * ### Custom Message Templates
+ * Render errors, warnings or the pending state with your own components. The
+ * wrapper keeps its live regions, ids and ARIA wiring:
+ *
+ * ```html
+ * <ngx-control-wrapper>
+ *   <input name="email" [ngModel]="formValue().email" />
+ *   <ng-template ngxErrorTemplate let-errors>
+ *     <ds-inline-message tone="critical" [messages]="errors" />
+ *   </ng-template>
+ *   <ng-template ngxWarningTemplate let-warnings>...</ng-template>
+ *   <ng-template ngxPendingTemplate><ds-spinner /></ng-template>
+ * </ngx-control-wrapper>
+ * ```
+ *
+ * ### Success Feedback
+ * Confirm a valid value, e.g. after an async availability check. The
+ * `ngx-control-wrapper--valid` class and the message follow the error display
+ * mode and are announced politely:
+ *
+ * ```html
+ * <ngx-control-wrapper successMessage="Username is available">
+ *   <input name="username" [ngModel]="formValue().username" />
+ * </ngx-control-wrapper>
+ * ```
+ *
  * ### Accessibility Features (Automatic)
- * - Unique IDs for error/warning/pending regions
+ * - Unique IDs for error/warning/pending/success regions
  * - `aria-describedby` linking errors to form controls
  * - `aria-invalid="true"` when errors are shown
  * - Uses `role="status"` with `aria-live="polite"` for non-disruptive announcements
@@ -98,9 +137,9 @@ let nextUniqueId = 0;
  *
  * Error & Warning Display Behavior:
  *   - The error display mode can be configured globally using the NGX_ERROR_DISPLAY_MODE_TOKEN injection token, or per instance using the `errorDisplayMode` input on FormErrorDisplayDirective (which this component uses as a hostDirective).
- *   - Possible error display values: 'on-blur' | 'on-submit' | 'on-blur-or-submit' | 'on-dirty' | 'always' (default: 'on-blur-or-submit')
+ *   - Possible error display values: 'on-blur' | 'on-submit' | 'on-blur-or-submit' | 'on-dirty' | 'on-blur-then-live' | 'always' | a predicate (default: 'on-blur-or-submit')
  *   - The warning display mode can be configured globally using NGX_WARNING_DISPLAY_MODE_TOKEN, or per instance using the `warningDisplayMode` input on FormErrorDisplayDirective.
- *   - Possible warning display values: 'on-touch' | 'on-validated-or-touch' | 'on-dirty' | 'always' (default: 'on-validated-or-touch')
+ *   - Possible warning display values: 'on-touch' | 'on-validated-or-touch' | 'on-dirty' | 'on-blur-then-live' | 'always' | a predicate (default: 'on-validated-or-touch')
  *
  * Example (per instance):
  *   <div ngxControlWrapper>
@@ -141,6 +180,7 @@ let nextUniqueId = 0;
 @Component({
   selector:
     'ngx-control-wrapper, sc-control-wrapper, [scControlWrapper], [ngxControlWrapper], [ngx-control-wrapper], [sc-control-wrapper]',
+  imports: [NgTemplateOutlet],
   templateUrl: './control-wrapper.component.html',
   styles: `
     :host {
@@ -153,6 +193,7 @@ let nextUniqueId = 0;
   host: {
     class: 'ngx-control-wrapper sc-control-wrapper',
     '[class.ngx-control-wrapper--invalid]': 'errorDisplay.shouldShowErrors()',
+    '[class.ngx-control-wrapper--valid]': 'errorDisplay.shouldShowSuccess()',
     '[attr.aria-busy]': "errorDisplay.isPending() ? 'true' : null",
   },
   hostDirectives: [
@@ -168,11 +209,12 @@ export class ControlWrapperComponent implements AfterContentInit, OnDestroy {
   });
   private readonly elementRef = inject(ElementRef);
   private readonly destroyRef = inject(DestroyRef);
+  private readonly config = inject(NGX_VEST_FORMS_CONFIG);
 
   /**
    * Controls how this wrapper applies ARIA attributes to descendant controls.
    *
-   * - `all-controls` (default, backwards compatible): apply `aria-describedby` / `aria-invalid`
+   * - `all-controls` (default unless `provideNgxVestForms` sets one, backwards compatible): apply `aria-describedby` / `aria-invalid`
    *   to all `input/select/textarea` elements inside the wrapper.
    * - `single-control`: apply ARIA attributes only when exactly one control is found.
    *   (Useful for wrappers that sometimes contain helper buttons/controls.)
@@ -183,13 +225,30 @@ export class ControlWrapperComponent implements AfterContentInit, OnDestroy {
    *   across multiple child controls.
    * - This does not affect whether messages render; it only affects ARIA wiring.
    */
-  readonly ariaAssociationMode = input<AriaAssociationMode>('all-controls');
+  readonly ariaAssociationMode = input<AriaAssociationMode>(
+    this.config.ariaAssociationMode ?? 'all-controls'
+  );
+
+  /**
+   * Message confirming a valid value, e.g. "Username is available". Shown when
+   * the field is valid and its validation settled, following the error display
+   * mode (see `FormErrorDisplayDirective.shouldShowSuccess`).
+   */
+  readonly successMessage = input<string | null>(null);
+
+  /** Projected `ngxErrorTemplate`, replacing the default error list */
+  protected readonly errorTemplate = contentChild(ErrorTemplateDirective);
+  /** Projected `ngxWarningTemplate`, replacing the default warning list */
+  protected readonly warningTemplate = contentChild(WarningTemplateDirective);
+  /** Projected `ngxPendingTemplate`, replacing the default spinner */
+  protected readonly pendingTemplate = contentChild(PendingTemplateDirective);
 
   // Generate unique IDs for ARIA associations
   protected readonly uniqueId = `ngx-control-wrapper-${nextUniqueId++}`;
   protected readonly errorId = `${this.uniqueId}-error`;
   protected readonly warningId = `${this.uniqueId}-warning`;
   protected readonly pendingId = `${this.uniqueId}-pending`;
+  protected readonly successId = `${this.uniqueId}-success`;
 
   // Track form controls found in the wrapper
   private readonly formControls = signal<HTMLElement[]>([]);
@@ -202,11 +261,12 @@ export class ControlWrapperComponent implements AfterContentInit, OnDestroy {
 
   /**
    * Debounced pending state to prevent flashing for quick async validations.
-   * Uses createDebouncedPendingState utility with 500ms delay and 500ms minimum display.
+   * Uses createDebouncedPendingState utility with 500ms delay and 500ms minimum display,
+   * unless `provideNgxVestForms` configures `pendingDebounce`.
    */
   private readonly pendingState = createDebouncedPendingState(
     this.errorDisplay.isPending,
-    { showAfter: 500, minimumDisplay: 500 }
+    { ...DEFAULT_PENDING_DEBOUNCE, ...this.config.pendingDebounce }
   );
   protected readonly showPendingMessage = this.pendingState.showPendingMessage;
 
@@ -219,6 +279,13 @@ export class ControlWrapperComponent implements AfterContentInit, OnDestroy {
    */
   protected readonly shouldShowWarnings = this.errorDisplay.shouldShowWarnings;
 
+  /**
+   * Whether to display the success message; the valid host class does not need one.
+   */
+  protected readonly showSuccessMessage = computed(
+    () => !!this.successMessage() && this.errorDisplay.shouldShowSuccess()
+  );
+
   /**
    * Computed signal that builds aria-describedby string based on visible regions
    */
@@ -233,6 +300,9 @@ export class ControlWrapperComponent implements AfterContentInit, OnDestroy {
     if (this.showPendingMessage()) {
       ids.push(this.pendingId);
     }
+    if (this.showSuccessMessage()) {
+      ids.push(this.successId);
+    }
     return ids.length > 0 ? ids.join(' ') : null;
   });
 
@@ -247,6 +317,7 @@ export class ControlWrapperComponent implements AfterContentInit, OnDestroy {
     this.errorId,
     this.warningId,
     this.pendingId,
+    this.successId,
   ];
 
   constructor() {
@@ -0,0 +1,132 @@
+import { Component, signal } from '@angular/core';
+import { render, screen } from '@testing-library/angular';
+import userEvent from '@testing-library/user-event';
+import { enforce, only, staticSuite, test as vestTest, warn } from 'vest';
+import { describe, expect, it, vi } from 'vitest';
+import { NgxVestForms } from '../../exports';
+import { FormDevtoolsComponent } from './form-devtools.component';
+
+type SignupModel = {
+  name?: string;
+  password?: string;
+  confirmPassword?: string;
+};
+
+const signupSuite = staticSuite((model: SignupModel, field?: string) => {
+  only(field);
+  vestTest('name', 'Name is required', () => {
+    enforce(model.name).isNotBlank();
+  });
+  vestTest('password', 'Use at least 12 characters', () => {
+    warn();
+    enforce(model.password).longerThanOrEquals(12);
+  });
+  vestTest('confirmPassword', 'Passwords do not match', () => {
+    enforce(model.confirmPassword).equals(model.password);
+  });
+});
+
+@Component({
+  imports: [NgxVestForms, FormDevtoolsComponent],
+  template: `
+    <form
+      ngxVestForm
+      [suite]="suite"
+      [formShape]="shape"
+      [validationConfig]="validationConfig"
+      [formValue]="formValue()"
+      (formValueChange)="formValue.set($event)"
+    >
+      <label for="name">Name</label>
+      <input id="name" name="name" [ngModel]="formValue().name" />
+      <label for="password">Password</label>
+      <input id="password" name="password" [ngModel]="formValue().password" />
+      <label for="confirm">Confirm</label>
+      <input
+        id="confirm"
+        name="confirmPassword"
+        [ngModel]="formValue().confirmPassword"
+      />
+      <ngx-vest-forms-devtools [expanded]="true" />
+    </form>
+  `,
+})
+class TestDevtoolsHost {
+  formValue = signal<SignupModel>({});
+  suite = signupSuite;
+  shape = { name: '', password: '', confirmPassword: '' };
+  validationConfig = { password: ['confirmPassword'] };
+}
+
+function row(path: string): HTMLElement {
+  const element = document.querySelector<HTMLElement>(
+    `ngx-vest-forms-devtools tr[data-path="${path}"]`
+  );
+  if (!element) {
+    throw new Error(`No devtools row for '${path}'`);
+  }
+  return element;
+}
+
+describe('FormDevtoolsComponent', () => {
+  it('should list every control with status, flags, errors and warnings', async () => {
+    const { fixture } = await render(TestDevtoolsHost);
+    await fixture.whenStable();
+
+    await userEvent.type(screen.getByLabelText('Password'), 'short');
+    await userEvent.tab();
+    fixture.detectChanges();
+
+    await expect.poll(() => row('name').textContent).toContain('INVALID');
+    expect(row('name').textContent).toContain('Name is required');
+    expect(row('name').textContent).toContain('untouched pristine');
+    await expect
+      .poll(() => row('password').textContent)
+      .toContain('Use at least 12 characters');
+    expect(row('password').textContent).toContain('"short"');
+    expect(row('password').textContent).toContain('touched dirty');
+    expect(row('password').textContent).toMatch(/\d+(\.\d)? ms/);
+  });
+
+  it('should show fired validationConfig triggers', async () => {
+    const { fixture } = await render(TestDevtoolsHost);
+    await fixture.whenStable();
+
+    await userEvent.type(screen.getByLabelText('Password'), 'secret');
+    fixture.detectChanges();
+
+    const triggers = screen.getByRole('region', {
+      name: 'validationConfig triggers',
+    });
+    await expect
+      .poll(() => triggers.textContent)
+      .toContain('password → confirmPassword');
+  });
+
+  it('should show the resolved validationConfig graph', async () => {
+    const { fixture } = await render(TestDevtoolsHost);
+    await fixture.whenStable();
+
+    const graph = screen.getByRole('region', {
+      name: 'validationConfig graph',
+    });
+    expect(graph.textContent).toContain('password → confirmPassword');
+    expect(graph.textContent).not.toContain('NGX-019');
+  });
+
+  it('should show shape mismatches', async () => {
+    const consoleWarnSpy = vi
+      .spyOn(console, 'warn')
+      .mockImplementation(() => undefined);
+    const { fixture } = await render(TestDevtoolsHost);
+    fixture.componentInstance.formValue.set({
+      ['nmae' as keyof SignupModel]: 'Jane',
+    });
+    fixture.detectChanges();
+
+    const mismatches = screen.getByRole('region', { name: 'Shape mismatches' });
+    await expect.poll(() => mismatches.textContent).toContain('[NGX-001]');
+    expect(mismatches.textContent).toContain("'nmae'");
+    consoleWarnSpy.mockRestore();
+  });
+});
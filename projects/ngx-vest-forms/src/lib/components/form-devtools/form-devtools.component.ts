@@ -0,0 +1,244 @@
+import { DatePipe, DecimalPipe, JsonPipe } from '@angular/common';
+import {
+  ChangeDetectionStrategy,
+  Component,
+  computed,
+  inject,
+  input,
+  Signal,
+} from '@angular/core';
+import {
+  AbstractControl,
+  FormArray,
+  FormControlStatus,
+  FormGroup,
+} from '@angular/forms';
+import { FormDirective } from '../../directives/form.directive';
+import type { NgxDevtoolsSnapshot } from '../../utils/devtools.utils';
+
+/**
+ * One control listed by `ngx-vest-forms-devtools`.
+ */
+export type NgxDevtoolsControlRow = {
+  /** Dotted control path, e.g. `addresses.0.street` */
+  readonly path: string;
+  /** Whether the control is a `FormGroup`/`FormArray` */
+  readonly group: boolean;
+  readonly value: unknown;
+  readonly status: FormControlStatus;
+  readonly touched: boolean;
+  readonly dirty: boolean;
+  readonly pending: boolean;
+  readonly errors: readonly string[];
+  readonly warnings: readonly string[];
+  /** Duration of the last suite run for the field, if it ran */
+  readonly lastRunMs: number | null;
+};
+
+/**
+ * Development-only inspector for an `ngxVestForm`.
+ *
+ * Lists every registered control with its value, status, touched/dirty/pending
+ * flags, errors and warnings, together with the `validationConfig` triggers that
+ * fired, the last Vest suite run duration and the mismatches reported by
+ * `validateShape`. Renders nothing in production builds, where `ngxVestForm`
+ * records no debug information either.
+ *
+ * The component is not part of `NgxVestForms`; import it where you debug.
+ *
+ * @example
+ * ```html
+ * <form ngxVestForm [suite]="suite" [formShape]="shape" [(formValue)]="formValue">
+ *   ...
+ *   <ngx-vest-forms-devtools />
+ * </form>
+ *
+ * <!-- Or outside the form -->
+ * <ngx-vest-forms-devtools [form]="vest" />
+ * ```
+ */
+@Component({
+  selector: 'ngx-vest-forms-devtools',
+  exportAs: 'ngxVestFormsDevtools',
+  imports: [DatePipe, DecimalPipe, JsonPipe],
+  templateUrl: './form-devtools.component.html',
+  styles: `
+    :host {
+      position: fixed;
+      right: 1rem;
+      bottom: 1rem;
+      z-index: 10000;
+      max-width: min(48rem, calc(100vw - 2rem));
+      max-height: calc(100vh - 2rem);
+      overflow: auto;
+      font: 12px/1.4 monospace;
+      color: #1f2937;
+      background: #f9fafb;
+      border: 1px solid #d1d5db;
+      border-radius: 0.25rem;
+      box-shadow: 0 4px 12px rgb(0 0 0 / 15%);
+    }
+
+    :host(.ngx-vest-forms-devtools--inline) {
+      position: static;
+      max-width: none;
+      max-height: none;
+    }
+
+    summary {
+      padding: 0.25rem 0.5rem;
+      font-weight: bold;
+      cursor: pointer;
+    }
+
+    section {
+      padding: 0.25rem 0.5rem;
+    }
+
+    table {
+      border-collapse: collapse;
+    }
+
+    th,
+    td {
+      padding: 0.125rem 0.5rem;
+      text-align: left;
+      vertical-align: top;
+      border-top: 1px solid #e5e7eb;
+    }
+
+    .ngx-vest-forms-devtools__invalid {
+      color: #b91c1c;
+    }
+
+    .ngx-vest-forms-devtools__warning {
+      color: #92400e;
+    }
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  host: {
+    class: 'ngx-vest-forms-devtools',
+    '[class.ngx-vest-forms-devtools--inline]': 'inline()',
+    '[hidden]': '!enabled',
+  },
+})
+export class FormDevtoolsComponent {
+  private readonly parentForm: FormDirective<Record<string, unknown>> | null =
+    inject(FormDirective, { optional: true });
+
+  /**
+   * Form to inspect. Defaults to the enclosing `ngxVestForm`.
+   */
+  readonly form = input<FormDirective<Record<string, unknown>> | null>(null);
+
+  /**
+   * Whether the panel starts expanded.
+   */
+  readonly expanded = input(false);
+
+  /**
+   * Renders the panel in the document flow instead of as a fixed overlay.
+   */
+  readonly inline = input(false);
+
+  /**
+   * `false` in production builds, where the panel renders nothing.
+   */
+  protected readonly enabled = typeof ngDevMode !== 'undefined' && !!ngDevMode;
+
+  readonly #formDirective = computed(() => this.form() ?? this.parentForm);
+
+  /**
+   * Status of the inspected root form, `null` without a form.
+   */
+  readonly formStatus: Signal<FormControlStatus | null> = computed(() => {
+    const formDirective = this.#formDirective();
+    // Track status changes; the status is read from the root form
+    formDirective?.formState();
+    return formDirective?.ngForm.form.status ?? null;
+  });
+
+  /**
+   * Debug information recorded by the inspected form.
+   */
+  readonly snapshot: Signal<NgxDevtoolsSnapshot | null> = computed(
+    () => this.#formDirective()?.devtools?.snapshot() ?? null
+  );
+
+  /**
+   * Triggers of the resolved `validationConfig` graph, sorted by path.
+   */
+  protected readonly configTriggers = computed(() => {
+    const graph = this.snapshot()?.configAnalysis?.graph ?? {};
+    return Object.keys(graph).filter(
+      (field) => graph[field]?.revalidates.length
+    );
+  });
+
+  /**
+   * Every registered control, in form order.
+   */
+  readonly controls: Signal<NgxDevtoolsControlRow[]> = computed(() => {
+    const formDirective = this.#formDirective();
+    if (!this.enabled || !formDirective) {
+      return [];
+    }
+    // Track value, status and blur/submit changes; flags are read from the controls
+    formDirective.formState();
+    formDirective.touchedFieldPaths();
+    const warnings = formDirective.fieldWarnings();
+    const suiteRuns = this.snapshot()?.suiteRuns;
+
+    const rows: NgxDevtoolsControlRow[] = [];
+    const collect = (control: AbstractControl, path: string): void => {
+      const group =
+        control instanceof FormGroup || control instanceof FormArray;
+      if (path) {
+        rows.push({
+          path,
+          group,
+          value: control.value,
+          status: control.status,
+          touched: control.touched,
+          dirty: control.dirty,
+          pending: control.pending,
+          errors: getErrorMessages(control),
+          warnings:
+            warnings.get(path) ??
+            (control.errors?.['warnings'] as string[] | undefined) ??
+            [],
+          lastRunMs: suiteRuns?.get(path)?.durationMs ?? null,
+        });
+      }
+      if (group) {
+        for (const [key, child] of Object.entries(control.controls)) {
+          collect(child, path ? `${path}.${key}` : key);
+        }
+      }
+    };
+    collect(formDirective.ngForm.form, '');
+    return rows;
+  });
+}
+
+/**
+ * Vest messages of a control, plus the keys of other Angular validation errors.
+ */
+function getErrorMessages(control: AbstractControl): string[] {
+  const errors = control.errors;
+  if (!errors) {
+    return [];
+  }
+  const messages: string[] = [];
+  for (const [key, value] of Object.entries(errors)) {
+    if (key === 'warnings') {
+      continue;
+    }
+    if (key === 'errors' && Array.isArray(value)) {
+      messages.push(...(value as string[]));
+    } else {
+      messages.push(key);
+    }
+  }
+  return messages;
+}
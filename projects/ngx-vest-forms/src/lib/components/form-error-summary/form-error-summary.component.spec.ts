@@ -0,0 +1,207 @@
+import { Component, signal, viewChild } from '@angular/core';
+import { render, screen } from '@testing-library/angular';
+import userEvent from '@testing-library/user-event';
+import { enforce, only, staticSuite, test as vestTest } from 'vest';
+import { describe, expect, it } from 'vitest';
+import { ROOT_FORM } from '../../constants';
+import { ScErrorDisplayMode } from '../../directives/form-error-display.directive';
+import { FormDirective } from '../../directives/form.directive';
+import { NgxVestForms } from '../../exports';
+import { FormErrorSummaryComponent } from './form-error-summary.component';
+
+type SignupModel = {
+  name?: string;
+  address?: { city?: string };
+};
+
+const signupSuite = staticSuite((model: SignupModel, field?: string) => {
+  only(field);
+  vestTest('name', 'Name is required', () => {
+    enforce(model.name).isNotBlank();
+  });
+  vestTest('address.city', 'City is required', () => {
+    enforce(model.address?.city).isNotBlank();
+  });
+});
+
+@Component({
+  imports: [NgxVestForms, FormErrorSummaryComponent],
+  template: `
+    <form
+      ngxVestForm
+      [suite]="suite"
+      [formValue]="formValue()"
+      (formValueChange)="formValue.set($event)"
+      #vest="ngxVestForm"
+    >
+      <ngx-form-error-summary
+        [errorDisplayMode]="mode()"
+        data-testid="summary"
+      />
+      <label for="name">Name</label>
+      <input id="name" name="name" [ngModel]="formValue().name" />
+      <div ngModelGroup="address">
+        <label for="city">City</label>
+        <input id="city" name="city" [ngModel]="formValue().address?.city" />
+      </div>
+      <button type="submit">Submit</button>
+    </form>
+  `,
+})
+class TestSummaryHost {
+  formValue = signal<SignupModel>({});
+  mode = signal<ScErrorDisplayMode>('on-blur-or-submit');
+  suite = signupSuite;
+  readonly vestForm =
+    viewChild.required<FormDirective<Record<string, unknown>>>('vest');
+}
+
+async function renderHost(mode: ScErrorDisplayMode = 'on-blur-or-submit') {
+  const result = await render(TestSummaryHost);
+  result.fixture.componentInstance.mode.set(mode);
+  result.fixture.detectChanges();
+  await result.fixture.whenStable();
+  return result;
+}
+
+function summaryItems(): string[] {
+  return Array.from(screen.getByTestId('summary').querySelectorAll('li')).map(
+    (li) => li.textContent?.trim() ?? ''
+  );
+}
+
+describe('FormErrorSummaryComponent', () => {
+  it('should render nothing before the user interacted with the form', async () => {
+    await renderHost();
+
+    expect(summaryItems()).toEqual([]);
+    expect(screen.queryByRole('heading')).not.toBeInTheDocument();
+  });
+
+  it('should list all errors and focus itself after a failed submit', async () => {
+    const { fixture } = await renderHost();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Submit' }));
+    fixture.detectChanges();
+
+    await expect
+      .poll(() => summaryItems())
+      .toEqual(['Name is required', 'City is required']);
+    expect(
+      screen.getByRole('heading', { name: 'There is a problem' })
+    ).toBeInTheDocument();
+    await expect
+      .poll(() => document.activeElement)
+      .toBe(screen.getByTestId('summary'));
+  });
+
+  it('should focus the offending control when a link is clicked', async () => {
+    const { fixture } = await renderHost();
+    await userEvent.click(screen.getByRole('button', { name: 'Submit' }));
+    fixture.detectChanges();
+
+    const link = await screen.findByRole('link', { name: 'City is required' });
+    expect(link).toHaveAttribute('href', '#city');
+
+    await userEvent.click(link);
+
+    expect(document.activeElement).toBe(screen.getByLabelText('City'));
+  });
+
+  it('should only list errors of touched fields in on-blur-or-submit mode', async () => {
+    const { fixture } = await renderHost();
+
+    await userEvent.click(screen.getByLabelText('Name'));
+    await userEvent.tab();
+    fixture.detectChanges();
+
+    await expect.poll(() => summaryItems()).toEqual(['Name is required']);
+  });
+
+  it('should list errors immediately in always mode', async () => {
+    await renderHost('always');
+
+    await expect
+      .poll(() => summaryItems())
+      .toEqual(['Name is required', 'City is required']);
+  });
+
+  it('should list the errors a display mode predicate allows', async () => {
+    await renderHost(({ fieldPath }) => fieldPath.startsWith('address.'));
+
+    await expect.poll(() => summaryItems()).toEqual(['City is required']);
+  });
+
+  it('should ask a display mode predicate about errors without a control', async () => {
+    const { fixture } = await renderHost(
+      ({ control, fieldPath, formSubmitted }) =>
+        control === null && fieldPath === 'coupon' ? true : formSubmitted
+    );
+
+    fixture.componentInstance
+      .vestForm()
+      .setServerErrors({ coupon: ['Coupon has expired'] });
+    fixture.detectChanges();
+
+    await expect.poll(() => summaryItems()).toEqual(['Coupon has expired']);
+  });
+
+  it('should list ROOT_FORM errors without a link after submit', async () => {
+    const { fixture } = await renderHost();
+    const vestForm = fixture.componentInstance.vestForm();
+
+    vestForm.setServerErrors({ [ROOT_FORM]: ['Service unavailable'] });
+    fixture.detectChanges();
+    expect(summaryItems()).toEqual([]);
+
+    await userEvent.click(screen.getByRole('button', { name: 'Submit' }));
+    fixture.detectChanges();
+
+    await expect.poll(() => summaryItems()).toContain('Service unavailable');
+    expect(
+      screen.queryByRole('link', { name: 'Service unavailable' })
+    ).not.toBeInTheDocument();
+  });
+
+  it('should hide errors the field holds back in on-blur-then-live mode', async () => {
+    @Component({
+      imports: [NgxVestForms, FormErrorSummaryComponent],
+      template: `
+        <form
+          ngxVestForm
+          [suite]="suite"
+          [formValue]="formValue()"
+          (formValueChange)="formValue.set($event)"
+        >
+          <ngx-form-error-summary
+            errorDisplayMode="on-blur-then-live"
+            data-testid="summary"
+          />
+          <ngx-control-wrapper errorDisplayMode="on-blur-then-live">
+            <label for="name">Name</label>
+            <input id="name" name="name" [ngModel]="formValue().name" />
+          </ngx-control-wrapper>
+        </form>
+      `,
+    })
+    class BlurThenLiveHost {
+      formValue = signal<SignupModel>({});
+      suite = signupSuite;
+    }
+
+    await render(BlurThenLiveHost);
+    const name = screen.getByLabelText('Name');
+    await userEvent.type(name, 'Jane');
+    await userEvent.tab();
+
+    // Touched, but emptied without leaving the field: the wrapper waits for blur
+    await userEvent.clear(name);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(screen.queryByText('Name is required')).not.toBeInTheDocument();
+    expect(summaryItems()).toEqual([]);
+
+    await userEvent.tab();
+
+    await expect.poll(() => summaryItems()).toEqual(['Name is required']);
+  });
+});
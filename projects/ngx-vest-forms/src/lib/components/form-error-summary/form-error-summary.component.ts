@@ -0,0 +1,297 @@
+import {
+  afterNextRender,
+  ChangeDetectionStrategy,
+  Component,
+  computed,
+  DestroyRef,
+  ElementRef,
+  inject,
+  Injector,
+  input,
+  Signal,
+} from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { AbstractControl } from '@angular/forms';
+import { filter } from 'rxjs';
+import { ROOT_FORM } from '../../constants';
+import {
+  NGX_ERROR_DISPLAY_MODE_TOKEN,
+  SC_ERROR_DISPLAY_MODE_TOKEN,
+} from '../../directives/error-display-mode.token';
+import { VestValidationErrors } from '../../directives/form-control-state.directive';
+import {
+  getErrorsArmedSignal,
+  isErrorDisplayModeRevealed,
+  NgxDisplayModeContext,
+  SC_ERROR_DISPLAY_MODE_DEFAULT,
+  ScErrorDisplayMode,
+} from '../../directives/form-error-display.directive';
+import {
+  getFormSubmittedSignal,
+  trackFormSubmittedState,
+} from '../../directives/form-submitted-state';
+import { FormDirective } from '../../directives/form.directive';
+import { getControlElement } from '../../utils/control-element.utils';
+import { parseFieldPath } from '../../utils/field-path.utils';
+import {
+  DEFAULT_FOCUS_SELECTOR,
+  openCollapsedDetailsAncestors,
+  resolveFirstInvalidFocusTarget,
+} from '../../utils/first-invalid.utils';
+
+let nextUniqueId = 0;
+
+/**
+ * A single message rendered by `ngx-form-error-summary`.
+ */
+export type NgxFormErrorSummaryItem = {
+  /** Field path the message belongs to (`ROOT_FORM` for form-level errors). */
+  readonly path: string;
+  readonly message: string;
+};
+
+/**
+ * Form-level error summary with jump-to-field links (GOV.UK pattern).
+ *
+ * Place it inside a `<form ngxVestForm>`. It lists the messages from
+ * `formState().errors`, filtered with the same error display mode rules as
+ * `ngx-control-wrapper`, so the summary never shows errors the fields themselves hide.
+ * `ROOT_FORM` errors are listed after submit (or with `'always'`) without a link.
+ *
+ * Clicking a link focuses the offending control. When a submit fails, focus moves
+ * to the summary so screen reader and keyboard users land on the list of problems.
+ *
+ * @example
+ * ```html
+ * <form ngxVestForm [suite]="suite" [(formValue)]="formValue" (ngSubmit)="save()">
+ *   <ngx-form-error-summary />
+ *   ...
+ * </form>
+ * ```
+ */
+@Component({
+  selector: 'ngx-form-error-summary',
+  exportAs: 'ngxFormErrorSummary',
+  templateUrl: './form-error-summary.component.html',
+  styles: `
+    :host {
+      display: block;
+    }
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  host: {
+    class: 'ngx-form-error-summary',
+    '[class.ngx-form-error-summary--visible]': 'items().length > 0',
+    '[attr.aria-labelledby]': 'items().length > 0 ? titleId : null',
+    tabindex: '-1',
+  },
+})
+export class FormErrorSummaryComponent {
+  private readonly elementRef = inject<ElementRef<HTMLElement>>(ElementRef);
+  private readonly injector = inject(Injector);
+  private readonly formDirective: FormDirective<
+    Record<string, unknown>
+  > | null = inject(FormDirective, { optional: true });
+
+  /**
+   * Error display mode used to decide which field errors are listed.
+   * Defaults to the configured `NGX_ERROR_DISPLAY_MODE_TOKEN`.
+   */
+  readonly errorDisplayMode = input<ScErrorDisplayMode>(
+    inject(NGX_ERROR_DISPLAY_MODE_TOKEN, { optional: true }) ??
+      inject(SC_ERROR_DISPLAY_MODE_TOKEN, { optional: true }) ??
+      SC_ERROR_DISPLAY_MODE_DEFAULT
+  );
+
+  /**
+   * Heading rendered above the list.
+   */
+  readonly title = input('There is a problem');
+
+  /**
+   * Whether to move focus to the summary after a submit with errors.
+   */
+  readonly focusOnSubmit = input(true);
+
+  /**
+   * Selector used to resolve the focus target inside a field or group element.
+   */
+  readonly focusSelector = input(DEFAULT_FOCUS_SELECTOR);
+
+  protected readonly uniqueId = `ngx-form-error-summary-${nextUniqueId++}`;
+  readonly titleId = `${this.uniqueId}-title`;
+  protected readonly rootForm = ROOT_FORM;
+
+  readonly formSubmitted: Signal<boolean> = this.formDirective
+    ? getFormSubmittedSignal(this.formDirective.ngForm)
+    : computed(() => false);
+
+  /**
+   * Messages that are currently visible, in form order.
+   */
+  readonly items: Signal<NgxFormErrorSummaryItem[]> = computed(() => {
+    const formDirective = this.formDirective;
+    if (!formDirective) {
+      return [];
+    }
+
+    const form = formDirective.ngForm.form;
+    const errors = formDirective.formState().errors;
+    // Track blur/submit interactions; touched/dirty flags are read from the controls
+    formDirective.touchedFieldPaths();
+    const mode = this.errorDisplayMode();
+    const submitted = this.formSubmitted();
+
+    const items: NgxFormErrorSummaryItem[] = [];
+    for (const [path, messages] of Object.entries(errors)) {
+      if (!this.#isVisible(form, path, messages, mode, submitted)) {
+        continue;
+      }
+      for (const message of messages) {
+        items.push({ path, message });
+      }
+    }
+    return items;
+  });
+
+  /**
+   * Items with the `href` of their link: the id of the focus target when it has one.
+   * Resolved when the items change, not on every change detection.
+   */
+  protected readonly links: Signal<
+    Array<{ item: NgxFormErrorSummaryItem; href: string }>
+  > = computed(() =>
+    this.items().map((item) => {
+      const target = this.#resolveFocusTarget(item.path);
+      return { item, href: target?.id ? `#${target.id}` : '#' };
+    })
+  );
+
+  constructor() {
+    const formDirective = this.formDirective;
+    if (!formDirective) {
+      return;
+    }
+    const ngForm = formDirective.ngForm;
+
+    trackFormSubmittedState(ngForm, inject(DestroyRef));
+
+    // Move focus to the summary once a submit has settled with errors
+    formDirective.submitSettled$
+      .pipe(
+        filter(() => this.focusOnSubmit()),
+        takeUntilDestroyed()
+      )
+      .subscribe(() => {
+        afterNextRender(
+          () => {
+            if (this.items().length > 0) {
+              this.elementRef.nativeElement.focus();
+            }
+          },
+          { injector: this.injector }
+        );
+      });
+  }
+
+  /**
+   * Focuses the control that belongs to a summary item.
+   *
+   * @returns The focused element, or `null` when no focusable target was found.
+   */
+  focusItem(item: NgxFormErrorSummaryItem, event?: Event): HTMLElement | null {
+    event?.preventDefault();
+    const target = this.#resolveFocusTarget(item.path);
+    if (!target) {
+      return null;
+    }
+    const root = this.elementRef.nativeElement.closest('form');
+    if (root) {
+      openCollapsedDetailsAncestors(root, target);
+    }
+    target.focus();
+    return target;
+  }
+
+  /**
+   * Applies the display mode rules of `FormErrorDisplayDirective` to a listed path.
+   * `ROOT_FORM` errors and errors without a control (e.g. unmatched server errors)
+   * have no field to touch, so they are decided at form level: after submit.
+   */
+  #isVisible(
+    form: AbstractControl,
+    path: string,
+    messages: readonly string[],
+    mode: ScErrorDisplayMode,
+    submitted: boolean
+  ): boolean {
+    const control = path === ROOT_FORM ? null : this.#getControl(path);
+    return isErrorDisplayModeRevealed(
+      mode,
+      {
+        isTouched: !!control?.touched,
+        isDirty: !!control?.dirty,
+        formSubmitted: submitted,
+        updateOn: (control ?? form).updateOn,
+        armed: !!control && getErrorsArmedSignal(control)(),
+      },
+      () => this.#displayModeContext(form, path, control, messages, submitted)
+    );
+  }
+
+  /**
+   * Context for display mode predicates. The summary has no per-field
+   * interaction tracking, so `hasBeenValidated` means touched, dirty or submitted.
+   * Form-level errors get the state of the form and `control: null`, except
+   * `ROOT_FORM`, whose control is the form.
+   */
+  #displayModeContext(
+    form: AbstractControl,
+    path: string,
+    control: AbstractControl | null,
+    messages: readonly string[],
+    submitted: boolean
+  ): NgxDisplayModeContext {
+    const state = control ?? form;
+    return {
+      kind: 'error',
+      controlState: {
+        status: state.status,
+        isValid: state.valid,
+        isInvalid: state.invalid,
+        isPending: state.pending,
+        isDisabled: state.disabled,
+        isTouched: state.touched,
+        isDirty: state.dirty,
+        isPristine: state.pristine,
+        errors: state.errors as VestValidationErrors | null,
+      },
+      formSubmitted: submitted,
+      hasBeenValidated: state.touched || state.dirty || submitted,
+      messages,
+      control: path === ROOT_FORM ? form : control,
+      fieldPath: path,
+      form: this.formDirective,
+    };
+  }
+
+  #getControl(path: string): AbstractControl | null {
+    const form = this.formDirective?.ngForm.form;
+    if (!form) {
+      return null;
+    }
+    return path === ROOT_FORM ? form : form.get(parseFieldPath(path));
+  }
+
+  #resolveFocusTarget(path: string): HTMLElement | null {
+    if (path === ROOT_FORM) {
+      return null;
+    }
+    const control = this.#getControl(path);
+    const element = control ? getControlElement(control) : null;
+    if (!element) {
+      return null;
+    }
+    return resolveFirstInvalidFocusTarget(element, this.focusSelector());
+  }
+}
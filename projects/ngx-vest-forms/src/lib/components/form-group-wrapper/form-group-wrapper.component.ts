@@ -6,6 +6,10 @@ import {
   input,
 } from '@angular/core';
 import { FormErrorDisplayDirective } from '../../directives/form-error-display.directive';
+import {
+  DEFAULT_PENDING_DEBOUNCE,
+  NGX_VEST_FORMS_CONFIG,
+} from '../../tokens/config.token';
 import { createDebouncedPendingState } from '../../utils/pending-state.utils';
 
 let nextUniqueId = 0;
@@ -51,14 +55,15 @@ export class FormGroupWrapperComponent {
 
   /**
    * Controls the debounce behavior for the pending message.
-   * Defaults are conservative to avoid flashing.
+   * Defaults are conservative to avoid flashing (500ms / 500ms), or
+   * `pendingDebounce` of `provideNgxVestForms`.
    */
   readonly pendingDebounce = input<{
     showAfter: number;
     minimumDisplay: number;
   }>({
-    showAfter: 500,
-    minimumDisplay: 500,
+    ...DEFAULT_PENDING_DEBOUNCE,
+    ...inject(NGX_VEST_FORMS_CONFIG).pendingDebounce,
   });
 
   protected readonly uniqueId = `ngx-form-group-wrapper-${nextUniqueId++}`;
@@ -1,6 +1,11 @@
 import { isDevMode } from '@angular/core';
 import { AbstractControl, ValidationErrors } from '@angular/forms';
 import { Observable, from, of } from 'rxjs';
+import {
+  NGX_VEST_FORMS_ERRORS,
+  NgxDiagnosticsSink,
+  reportDiagnostic,
+} from '../errors/error-catalog';
 import { FormDirective } from './form.directive';
 import { ValidationOptions } from './validation-options';
 
@@ -22,13 +27,17 @@ type ValidationResult =
  * @param resolveField - Resolver that maps the control to a field path.
  * @param validationOptions - Per-control validation options.
  * @param source - Caller identifier for diagnostics.
+ * @param group - Vest group of the nearest `ngxValidationGroup` container, if any.
+ * @param diagnostics - Sink for the dev-mode diagnostics, defaults to the console.
  */
 export function runAsyncValidationBridge(
   control: AbstractControl,
   context: FormDirective<Record<string, unknown>> | null,
   resolveField: FieldResolver,
   validationOptions: ValidationOptions,
-  source: 'FormModelDirective' | 'FormModelGroupDirective'
+  source: 'FormModelDirective' | 'FormModelGroupDirective',
+  group?: string,
+  diagnostics?: NgxDiagnosticsSink
 ): Observable<ValidationErrors | null> {
   if (!control) {
     return of(null);
@@ -36,8 +45,10 @@ export function runAsyncValidationBridge(
 
   if (!context) {
     if (isDevMode()) {
-      console.warn(
-        `[ngx-vest-forms] ${source}: No FormDirective context found. Validation skipped (fail-open).`
+      reportDiagnostic(
+        diagnostics,
+        NGX_VEST_FORMS_ERRORS.MISSING_FORM_CONTEXT,
+        [source]
       );
     }
     return of(null);
@@ -46,14 +57,20 @@ export function runAsyncValidationBridge(
   const field = resolveField(control);
   if (!field) {
     if (isDevMode()) {
-      console.warn(
-        `[ngx-vest-forms] ${source}: Could not resolve control path. Ensure the control has a valid name/path and is registered in the form tree.`
+      reportDiagnostic(
+        diagnostics,
+        NGX_VEST_FORMS_ERRORS.UNRESOLVED_CONTROL_PATH,
+        [source]
       );
     }
     return of(null);
   }
 
-  const asyncValidator = context.createAsyncValidator(field, validationOptions);
+  const asyncValidator = context.createAsyncValidator(
+    field,
+    validationOptions,
+    group
+  );
   const validationResult: ValidationResult = asyncValidator(control);
 
   if (validationResult instanceof Observable) {
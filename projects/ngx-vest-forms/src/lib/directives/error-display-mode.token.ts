@@ -20,6 +20,7 @@ export const SC_ERROR_DISPLAY_MODE_TOKEN =
  * - 'on-submit': Show errors after form submission
  * - 'on-blur-or-submit': Show errors after blur or form submission (default)
  * - 'on-dirty': Show errors as soon as the field value changes
+ * - 'on-blur-then-live': Show errors after blur or submission, then update them live until fixed
  * - 'always': Show errors immediately, even on pristine fields
  */
 export const NGX_ERROR_DISPLAY_MODE_TOKEN =
@@ -34,6 +35,7 @@ export const NGX_ERROR_DISPLAY_MODE_TOKEN =
  * - 'on-touch': Show warnings after field is touched/blurred
  * - 'on-validated-or-touch': Show warnings after validation runs or field is touched (default)
  * - 'on-dirty': Show warnings as soon as the field value changes
+ * - 'on-blur-then-live': Show warnings after blur or submission, then update them live until gone
  * - 'always': Show warnings immediately, even on pristine fields
  */
 export const NGX_WARNING_DISPLAY_MODE_TOKEN =
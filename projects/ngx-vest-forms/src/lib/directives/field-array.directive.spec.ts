@@ -0,0 +1,261 @@
+import { Component, signal, viewChild } from '@angular/core';
+import { render } from '@testing-library/angular';
+import { enforce, only, staticSuite, test as vestTest } from 'vest';
+import { describe, expect, it } from 'vitest';
+import { NgxVestForms } from '../exports';
+import { FieldArrayDirective } from './field-array.directive';
+import { FormDirective } from './form.directive';
+
+type ContactModel = {
+  phoneNumbers?: Record<number, string>;
+};
+
+const contactSuite = staticSuite((model: ContactModel, field?: string) => {
+  only(field);
+  Object.entries(model.phoneNumbers ?? {}).forEach(([index, phone]) => {
+    vestTest(`phoneNumbers.${index}`, 'Phone number is required', () => {
+      enforce(phone).isNotBlank();
+    });
+  });
+});
+
+@Component({
+  imports: [NgxVestForms, FieldArrayDirective],
+  template: `
+    <form
+      ngxVestForm
+      [suite]="suite"
+      [formValue]="formValue()"
+      (formValueChange)="formValue.set($event)"
+      #vest="ngxVestForm"
+    >
+      <div ngModelGroup="phoneNumbers">
+        <ng-template
+          [ngxFieldArray]="'phoneNumbers'"
+          #phones="ngxFieldArray"
+          let-phone
+          let-name="name"
+          let-key="key"
+        >
+          <input
+            [attr.data-testid]="'phone-' + name"
+            [attr.data-key]="key"
+            [name]="name"
+            [ngModel]="phone"
+          />
+        </ng-template>
+      </div>
+    </form>
+  `,
+})
+class TestFieldArrayHost {
+  formValue = signal<ContactModel>({
+    phoneNumbers: { 0: '111', 1: '', 2: '333' },
+  });
+  suite = contactSuite;
+  readonly vestForm =
+    viewChild.required<FormDirective<Record<string, unknown>>>('vest');
+  readonly phones = viewChild.required<FieldArrayDirective<string>>('phones');
+}
+
+async function renderHost() {
+  const { fixture } = await render(TestFieldArrayHost);
+  fixture.detectChanges();
+  await fixture.whenStable();
+  const host = fixture.componentInstance;
+  return { fixture, host, vestForm: host.vestForm(), phones: host.phones() };
+}
+
+function inputValues(container: HTMLElement): string[] {
+  return Array.from(
+    container.querySelectorAll<HTMLInputElement>('input[data-testid]')
+  ).map((input) => input.value);
+}
+
+describe('FieldArrayDirective', () => {
+  it('should render one row per item of the object-keyed model', async () => {
+    const { fixture, phones } = await renderHost();
+
+    expect(phones.values()).toEqual(['111', '', '333']);
+    expect(phones.length()).toBe(3);
+    expect(new Set(phones.keys()).size).toBe(3);
+    expect(inputValues(fixture.nativeElement)).toEqual(['111', '', '333']);
+    expect(phones.toObject()).toEqual({ 0: '111', 1: '', 2: '333' });
+  });
+
+  it('should add rows and sync them back to the form model', async () => {
+    const { fixture, host, phones } = await renderHost();
+
+    phones.add('444');
+    fixture.detectChanges();
+    await fixture.whenStable();
+
+    await expect
+      .poll(() => host.formValue().phoneNumbers)
+      .toEqual({ 0: '111', 1: '', 2: '333', 3: '444' });
+    expect(inputValues(fixture.nativeElement)).toEqual([
+      '111',
+      '',
+      '333',
+      '444',
+    ]);
+  });
+
+  it('should re-index the model when a row is removed', async () => {
+    const { fixture, host, phones } = await renderHost();
+    const [firstKey, , lastKey] = phones.keys();
+
+    phones.remove(1);
+    fixture.detectChanges();
+    await fixture.whenStable();
+
+    await expect
+      .poll(() => host.formValue().phoneNumbers)
+      .toEqual({ 0: '111', 1: '333' });
+    expect(phones.keys()).toEqual([firstKey, lastKey]);
+    expect(inputValues(fixture.nativeElement)).toEqual(['111', '333']);
+  });
+
+  it('should keep keys and touched state attached to moved rows', async () => {
+    const { fixture, host, vestForm, phones } = await renderHost();
+    const keys = phones.keys();
+    vestForm.ngForm.form.get('phoneNumbers.0')?.markAsTouched();
+
+    phones.move(0, 2);
+    fixture.detectChanges();
+    await fixture.whenStable();
+
+    await expect
+      .poll(() => host.formValue().phoneNumbers)
+      .toEqual({ 0: '', 1: '333', 2: '111' });
+    expect(phones.keys()).toEqual([keys[1], keys[2], keys[0]]);
+    expect(vestForm.ngForm.form.get('phoneNumbers.0')?.touched).toBe(false);
+    expect(vestForm.ngForm.form.get('phoneNumbers.2')?.touched).toBe(true);
+  });
+
+  it('should report validation errors for the new index after a move', async () => {
+    const { fixture, vestForm, phones } = await renderHost();
+    await expect
+      .poll(() => vestForm.ngForm.form.get('phoneNumbers.1')?.errors)
+      .toEqual({ errors: ['Phone number is required'] });
+
+    phones.move(1, 0);
+    fixture.detectChanges();
+    await fixture.whenStable();
+
+    await expect
+      .poll(() => vestForm.ngForm.form.get('phoneNumbers.0')?.errors)
+      .toEqual({ errors: ['Phone number is required'] });
+    await expect
+      .poll(() => vestForm.ngForm.form.get('phoneNumbers.1')?.errors ?? null)
+      .toBeNull();
+  });
+
+  it('should insert rows with a fresh key and untouched state', async () => {
+    const { fixture, host, vestForm, phones } = await renderHost();
+    vestForm.ngForm.form.get('phoneNumbers.0')?.markAsTouched();
+    const keys = phones.keys();
+
+    phones.insert(0, '000');
+    fixture.detectChanges();
+    await fixture.whenStable();
+
+    await expect
+      .poll(() => host.formValue().phoneNumbers)
+      .toEqual({ 0: '000', 1: '111', 2: '', 3: '333' });
+    expect(phones.keys().slice(1)).toEqual(keys);
+    expect(keys).not.toContain(phones.keys()[0]);
+    expect(vestForm.ngForm.form.get('phoneNumbers.0')?.touched).toBe(false);
+    expect(vestForm.ngForm.form.get('phoneNumbers.1')?.touched).toBe(true);
+  });
+
+  it('should keep the row view and control when swapping neighbours', async () => {
+    const { fixture, host, vestForm, phones } = await renderHost();
+    const form = vestForm.ngForm.form;
+    const [first, second] = Array.from(
+      fixture.nativeElement.querySelectorAll('input[data-testid]')
+    ) as HTMLInputElement[];
+    const firstControl = form.get('phoneNumbers.0');
+    const secondControl = form.get('phoneNumbers.1');
+
+    phones.move(0, 1);
+    fixture.detectChanges();
+    await fixture.whenStable();
+
+    await expect
+      .poll(() => host.formValue().phoneNumbers)
+      .toEqual({ 0: '', 1: '111', 2: '333' });
+    await expect.poll(() => form.get('phoneNumbers.1')).toBe(firstControl);
+    expect(form.get('phoneNumbers.0')).toBe(secondControl);
+    expect(first?.getAttribute('data-testid')).toBe('phone-1');
+    expect(second?.getAttribute('data-testid')).toBe('phone-0');
+
+    // The inputs are still bound to the controls of their rows
+    if (first) {
+      first.value = '112';
+      first.dispatchEvent(new Event('input'));
+    }
+    await expect
+      .poll(() => host.formValue().phoneNumbers)
+      .toEqual({ 0: '', 1: '112', 2: '333' });
+  });
+});
+
+@Component({
+  imports: [NgxVestForms, FieldArrayDirective],
+  template: `
+    <form
+      ngxVestForm
+      [formValue]="formValue()"
+      (formValueChange)="formValue.set($event)"
+      #vest="ngxVestForm"
+    >
+      <div ngModelGroup="addresses">
+        <div
+          *ngxFieldArray="
+            'addresses';
+            in: formValue();
+            let address;
+            let name = name;
+            let addresses = fieldArray
+          "
+        >
+          <div [ngModelGroup]="name">
+            <input name="street" [ngModel]="address?.street" />
+          </div>
+        </div>
+      </div>
+    </form>
+  `,
+})
+class TestAddressesHost {
+  formValue = signal<{ addresses?: Record<number, { street?: string }> }>({
+    addresses: { 0: { street: 'First' }, 1: { street: 'Second' } },
+  });
+  readonly vestForm =
+    viewChild.required<FormDirective<Record<string, unknown>>>('vest');
+  readonly addresses = viewChild.required(FieldArrayDirective);
+}
+
+describe('FieldArrayDirective with object rows', () => {
+  it('should keep nested state with the row when an earlier row is removed', async () => {
+    const { fixture } = await render(TestAddressesHost);
+    await fixture.whenStable();
+    const host = fixture.componentInstance;
+    const form = host.vestForm().ngForm.form;
+    await expect.poll(() => form.get('addresses.1.street')).toBeTruthy();
+    const street = form.get('addresses.1.street');
+    street?.markAsTouched();
+
+    host.addresses().remove(0);
+    fixture.detectChanges();
+    await fixture.whenStable();
+
+    await expect
+      .poll(() => host.formValue().addresses)
+      .toEqual({ 0: { street: 'Second' } });
+    expect(form.get('addresses.0.street')).toBe(street);
+    expect(street?.touched).toBe(true);
+    expect(form.get('addresses.1')).toBeNull();
+  });
+});
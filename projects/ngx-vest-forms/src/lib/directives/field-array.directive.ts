@@ -0,0 +1,509 @@
+import {
+  afterNextRender,
+  computed,
+  Directive,
+  effect,
+  EmbeddedViewRef,
+  inject,
+  Injector,
+  input,
+  InputSignal,
+  signal,
+  TemplateRef,
+  untracked,
+  ViewContainerRef,
+} from '@angular/core';
+import {
+  AbstractControl,
+  FormArray,
+  FormControl,
+  FormGroup,
+} from '@angular/forms';
+import { fastDeepEqual } from '../utils/equality';
+import type { FieldPath } from '../utils/field-path-types';
+import { parseFieldPath } from '../utils/field-path.utils';
+import { FormDirective } from './form.directive';
+
+/**
+ * Template context exposed to every row rendered by `ngxFieldArray`.
+ */
+export type NgxFieldArrayContext<
+  TItem,
+  TModel extends Record<string, unknown> = Record<string, unknown>,
+> = {
+  /** The row value. */
+  $implicit: TItem;
+  /** Current position of the row. */
+  index: number;
+  /** Control name for the row (`String(index)`), bind it to `ngModelGroup`/`name`. */
+  name: string;
+  /** Key that stays with the row when rows are added, removed or moved. */
+  key: string;
+  /** Number of rows. */
+  count: number;
+  first: boolean;
+  last: boolean;
+  /** The directive instance, for calling `add`/`remove`/`move`/`insert` from a row. */
+  fieldArray: FieldArrayDirective<TItem, TModel>;
+};
+
+type FieldArrayRow<TItem> = {
+  readonly key: string;
+  readonly value: TItem;
+};
+
+let nextRowKey = 0;
+
+const ROW_NAME = /^\d+$/;
+
+/**
+ * Normalizes an array or the object-keyed form representation
+ * (`{ 0: a, 1: b }`) into an array ordered by numeric key.
+ */
+function toItemArray<TItem>(
+  value: readonly TItem[] | Record<number, TItem> | null | undefined
+): TItem[] {
+  if (Array.isArray(value)) {
+    return [...value];
+  }
+  if (!value || typeof value !== 'object') {
+    return [];
+  }
+  return Object.keys(value)
+    .filter((key) => ROW_NAME.test(key))
+    .sort((a, b) => Number(a) - Number(b))
+    .map((key) => (value as Record<string, TItem>)[key] as TItem);
+}
+
+function getValueAtPath(source: unknown, path: string): unknown {
+  let current = source;
+  for (const segment of parseFieldPath(path)) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string | number, unknown>)[segment];
+  }
+  return current;
+}
+
+function forEachLeafControl(
+  control: AbstractControl,
+  callback: (leaf: AbstractControl, relativePath: string) => void,
+  prefix = ''
+): void {
+  if (control instanceof FormGroup || control instanceof FormArray) {
+    for (const [key, child] of Object.entries(control.controls)) {
+      forEachLeafControl(child, callback, prefix ? `${prefix}.${key}` : key);
+    }
+    return;
+  }
+  callback(control, prefix);
+}
+
+/**
+ * Structural directive that renders one row per item of an array field and
+ * keeps the object-keyed form representation (`{ 0: ..., 1: ... }`) in sync.
+ *
+ * Template-driven forms cannot register controls against real arrays, so every
+ * row is registered under its index. `ngxFieldArray` takes care of the bookkeeping:
+ * - Rows are read from the form model at the given path (array or object-keyed).
+ * - Every row gets a `key` that stays stable across `add`, `insert`, `remove`
+ *   and `move`. Row views are tracked by that key, like `@for` with `track`.
+ * - Operations re-register the row controls under their new indices, so touched,
+ *   dirty and validation state stay with the row; the moved rows are re-validated
+ *   so errors and warnings are reported for the new indices.
+ *
+ * Place the directive inside the `ngModelGroup` for the array and bind each row's
+ * `name` to the row control (`ngModelGroup` for object rows, `ngModel` for primitives).
+ *
+ * @example
+ * ```html
+ * <div ngModelGroup="phoneNumbers">
+ *   <div *ngxFieldArray="'phoneNumbers'; let phone; let name = name; let i = index; let phones = fieldArray">
+ *     <input [name]="name" [ngModel]="phone" />
+ *     <button type="button" (click)="phones.remove(i)">Remove</button>
+ *   </div>
+ * </div>
+ * ```
+ *
+ * Bind `in` to the form model to type-check the path, and `of` to type the row context:
+ * ```html
+ * <div *ngxFieldArray="'addresses'; in: formValue(); of: formValue().addresses; let address; let name = name">
+ *   <div [ngModelGroup]="name">
+ *     <input name="street" [ngModel]="address?.street" />
+ *   </div>
+ * </div>
+ * ```
+ */
+@Directive({
+  selector: '[ngxFieldArray]',
+  exportAs: 'ngxFieldArray',
+})
+export class FieldArrayDirective<
+  TItem = unknown,
+  TModel extends Record<string, unknown> = Record<string, unknown>,
+> {
+  readonly #templateRef =
+    inject<TemplateRef<NgxFieldArrayContext<TItem, TModel>>>(TemplateRef);
+  readonly #viewContainer = inject(ViewContainerRef);
+  readonly #injector = inject(Injector);
+  readonly #formDirective: FormDirective<Record<string, unknown>> | null =
+    inject(FormDirective, { optional: true });
+
+  /**
+   * Path of the array field, relative to the form model (e.g. `'phoneNumbers'`).
+   * A `FieldPath` of the model once `in` is bound, so typos fail to compile.
+   */
+  readonly ngxFieldArray: InputSignal<FieldPath<TModel>> =
+    input.required<FieldPath<TModel>>();
+
+  /**
+   * Optional form model the path belongs to. Binding it types `ngxFieldArray`
+   * and reads the rows from it instead of the parent form's `formValue`.
+   */
+  readonly ngxFieldArrayIn = input<TModel | null | undefined>(undefined);
+
+  /**
+   * Optional source for the rows. Defaults to the value at `ngxFieldArray`
+   * in `in`, or in the parent form's `formValue`. Binding it also types the row context.
+   */
+  readonly ngxFieldArrayOf = input<
+    readonly TItem[] | Record<number, TItem> | null | undefined
+  >(undefined);
+
+  readonly #rows = signal<ReadonlyArray<FieldArrayRow<TItem>>>([]);
+
+  /**
+   * Rows the views are rendered for. Trails `#rows` during an operation until
+   * the row controls have been re-registered under their new indices.
+   */
+  readonly #renderedRows = signal<ReadonlyArray<FieldArrayRow<TItem>>>([]);
+
+  /**
+   * Set while an operation is being applied to the form. Model updates emitted
+   * during that time are intermediate and must not overwrite the rows.
+   */
+  readonly #applying = signal(false);
+
+  readonly #views = new Map<
+    string,
+    EmbeddedViewRef<NgxFieldArrayContext<TItem, TModel>>
+  >();
+
+  /**
+   * Current row values as an array.
+   */
+  readonly values = computed(() => this.#rows().map((row) => row.value));
+
+  /**
+   * Stable keys of the current rows, in row order.
+   */
+  readonly keys = computed(() => this.#rows().map((row) => row.key));
+
+  /**
+   * Number of rows.
+   */
+  readonly length = computed(() => this.#rows().length);
+
+  constructor() {
+    // Sync rows from the model (array or object-keyed representation)
+    effect(() => {
+      if (this.#applying()) {
+        return;
+      }
+      const items = this.#readSourceItems();
+      untracked(() => {
+        const rows = this.#rows();
+        if (
+          items.length === rows.length &&
+          items.every((item, index) => fastDeepEqual(item, rows[index]?.value))
+        ) {
+          return;
+        }
+        // Keys are kept by index: the model does not tell which row moved where
+        const next = items.map((value, index) => ({
+          key: rows[index]?.key ?? this.#createKey(),
+          value,
+        }));
+        this.#rows.set(next);
+        this.#renderedRows.set(next);
+      });
+    });
+
+    // Render one view per row, tracked by key
+    effect(() => {
+      const rows = this.#renderedRows();
+      untracked(() => this.#render(rows));
+    });
+  }
+
+  static ngTemplateContextGuard<TItem, TModel extends Record<string, unknown>>(
+    _dir: FieldArrayDirective<TItem, TModel>,
+    _ctx: unknown
+  ): _ctx is NgxFieldArrayContext<TItem, TModel> {
+    return true;
+  }
+
+  /**
+   * Appends a row.
+   */
+  add(item: TItem): void {
+    this.insert(this.#rows().length, item);
+  }
+
+  /**
+   * Inserts a row at `index` (clamped to the current bounds).
+   */
+  insert(index: number, item: TItem): void {
+    const rows = this.#rows();
+    const target = Math.max(0, Math.min(index, rows.length));
+    const next = [...rows];
+    next.splice(target, 0, { key: this.#createKey(), value: item });
+    this.#apply(next);
+  }
+
+  /**
+   * Removes the row at `index`. Out-of-range indices are ignored.
+   */
+  remove(index: number): void {
+    const rows = this.#rows();
+    if (index < 0 || index >= rows.length) {
+      return;
+    }
+    this.#apply(rows.filter((_, i) => i !== index));
+  }
+
+  /**
+   * Moves the row at `from` to `to`. Out-of-range indices are ignored.
+   */
+  move(from: number, to: number): void {
+    const rows = this.#rows();
+    if (
+      from === to ||
+      from < 0 ||
+      to < 0 ||
+      from >= rows.length ||
+      to >= rows.length
+    ) {
+      return;
+    }
+    const next = [...rows];
+    const [moved] = next.splice(from, 1);
+    if (moved) {
+      next.splice(to, 0, moved);
+    }
+    this.#apply(next);
+  }
+
+  /**
+   * Returns the rows in the object-keyed representation used by template-driven forms.
+   */
+  toObject(): Record<number, TItem> {
+    return Object.fromEntries(
+      this.values().map((value, index) => [index, value])
+    ) as Record<number, TItem>;
+  }
+
+  #readSourceItems(): TItem[] {
+    const source = this.ngxFieldArrayOf();
+    if (source !== undefined) {
+      return toItemArray(source);
+    }
+    const path = this.ngxFieldArray();
+    const model = this.ngxFieldArrayIn() ?? this.#formDirective?.formValue();
+    const value = model
+      ? getValueAtPath(model, path)
+      : this.#formDirective?.ngForm.form.get(path)?.value;
+    return toItemArray(
+      value as readonly TItem[] | Record<number, TItem> | null | undefined
+    );
+  }
+
+  #createKey(): string {
+    return `ngx-field-array-row-${nextRowKey++}`;
+  }
+
+  #render(rows: ReadonlyArray<FieldArrayRow<TItem>>): void {
+    const keys = new Set(rows.map((row) => row.key));
+    for (const [key, view] of this.#views) {
+      if (!keys.has(key)) {
+        view.destroy();
+        this.#views.delete(key);
+      }
+    }
+    rows.forEach((row, index) => {
+      const context: NgxFieldArrayContext<TItem, TModel> = {
+        $implicit: row.value,
+        index,
+        name: String(index),
+        key: row.key,
+        count: rows.length,
+        first: index === 0,
+        last: index === rows.length - 1,
+        fieldArray: this,
+      };
+      const view = this.#views.get(row.key);
+      if (!view) {
+        this.#views.set(
+          row.key,
+          this.#viewContainer.createEmbeddedView(
+            this.#templateRef,
+            context,
+            index
+          )
+        );
+        return;
+      }
+      Object.assign(view.context, context);
+      if (this.#viewContainer.indexOf(view) !== index) {
+        this.#viewContainer.move(view, index);
+      }
+      view.markForCheck();
+    });
+  }
+
+  /**
+   * Applies a new row order. The row controls move with their rows:
+   * 1. Views of removed rows are destroyed; `NgForm` drops their controls in a microtask.
+   * 2. After that, the remaining controls are re-registered under their new
+   *    indices and the views are moved and renamed.
+   * 3. After the render, entries dropped by `ngModel` renames are registered again
+   *    and every row is re-validated.
+   */
+  #apply(next: ReadonlyArray<FieldArrayRow<TItem>>): void {
+    const previous = this.#rows();
+    const container = this.#getArrayControl();
+    const controls = new Map<string, AbstractControl>();
+    previous.forEach((row, index) => {
+      const control = container?.get(String(index));
+      if (control) {
+        controls.set(row.key, control);
+      }
+    });
+
+    this.#applying.set(true);
+    this.#rows.set(next);
+
+    const keys = new Set(next.map((row) => row.key));
+    for (const [key, view] of this.#views) {
+      if (!keys.has(key)) {
+        view.destroy();
+        this.#views.delete(key);
+      }
+    }
+
+    queueMicrotask(() => {
+      if (container instanceof FormGroup) {
+        this.#registerRowControls(container, next, controls);
+      }
+      this.#renderedRows.set(next);
+
+      afterNextRender(
+        () => {
+          // NgModel re-registers renamed rows in a microtask; wait for those first
+          queueMicrotask(() => {
+            try {
+              if (container instanceof FormGroup) {
+                this.#restoreRowControls(container, next, controls);
+                this.#revalidateRows(container, previous.length, next.length);
+              }
+            } finally {
+              this.#applying.set(false);
+            }
+          });
+        },
+        { injector: this.#injector }
+      );
+    });
+  }
+
+  /**
+   * Registers the row controls under the indices of `rows`. Inserted primitive
+   * rows get a control up front, which their `ngModel` adopts when it registers.
+   */
+  #registerRowControls(
+    container: FormGroup,
+    rows: ReadonlyArray<FieldArrayRow<TItem>>,
+    controls: Map<string, AbstractControl>
+  ): void {
+    const primitiveRows = [...controls.values()].some(
+      (control) => control instanceof FormControl
+    );
+    for (const name of Object.keys(container.controls)) {
+      if (ROW_NAME.test(name)) {
+        container.removeControl(name, { emitEvent: false });
+      }
+    }
+    rows.forEach((row, index) => {
+      if (!controls.has(row.key) && primitiveRows) {
+        controls.set(row.key, new FormControl(row.value));
+      }
+      const control = controls.get(row.key);
+      if (control) {
+        container.registerControl(String(index), control);
+      }
+    });
+    // The model follows once the rows are rendered and re-validated
+    container.updateValueAndValidity({ emitEvent: false });
+  }
+
+  /**
+   * A renamed `ngModel` unregisters its previous name, which may already belong
+   * to another row. Registers the controls of rows that lost their entry again.
+   */
+  #restoreRowControls(
+    container: FormGroup,
+    rows: ReadonlyArray<FieldArrayRow<TItem>>,
+    controls: ReadonlyMap<string, AbstractControl>
+  ): void {
+    rows.forEach((row, index) => {
+      const control = controls.get(row.key);
+      if (control && !container.contains(String(index))) {
+        container.registerControl(String(index), control);
+      }
+    });
+  }
+
+  #revalidateRows(
+    container: FormGroup,
+    previousLength: number,
+    length: number
+  ): void {
+    const formDirective = this.#formDirective;
+    if (!formDirective) {
+      return;
+    }
+
+    // Drop warnings reported for rows that no longer exist
+    const path = this.ngxFieldArray();
+    const removedPrefixes: string[] = [];
+    for (let i = length; i < previousLength; i++) {
+      removedPrefixes.push(`${path}.${i}`);
+    }
+    if (removedPrefixes.length > 0) {
+      formDirective.fieldWarnings.update((map) => {
+        const next = new Map(map);
+        for (const key of map.keys()) {
+          if (
+            removedPrefixes.some(
+              (prefix) => key === prefix || key.startsWith(`${prefix}.`)
+            )
+          ) {
+            next.delete(key);
+          }
+        }
+        return next.size === map.size ? map : next;
+      });
+    }
+
+    // Re-validate every row so errors and warnings (including cross-row rules)
+    // are reported for the new indices
+    forEachLeafControl(container, (leaf) =>
+      leaf.updateValueAndValidity({ emitEvent: true })
+    );
+  }
+
+  #getArrayControl(): AbstractControl | null {
+    return this.#formDirective?.ngForm.form.get(this.ngxFieldArray()) ?? null;
+  }
+}
@@ -1,19 +1,28 @@
 import {
-  Directive,
-  Injector,
   afterEveryRender,
   computed,
   contentChild,
+  Directive,
   effect,
   inject,
+  Injector,
   signal,
 } from '@angular/core';
 import {
+  AbstractControl,
   AbstractControlDirective,
+  NgControl,
   NgModel,
   NgModelGroup,
   ValidationErrors,
 } from '@angular/forms';
+import { NGX_ERROR_MESSAGE_FORMATTER } from '../tokens/error-message-formatter.token';
+import { formatMessages } from '../utils/error-message.utils';
+import { getControlWarnings } from '../utils/reactive-forms.utils';
+import {
+  createValidationIssues,
+  NgxValidationIssue,
+} from '../utils/validation-issue.utils';
 import { FormDirective } from './form.directive';
 
 /**
@@ -69,12 +78,15 @@ const INITIAL_FORM_CONTROL_STATE = {
 export class FormControlStateDirective {
   protected readonly contentNgModel = contentChild(NgModel);
   protected readonly contentNgModelGroup = contentChild(NgModelGroup);
+  /** Reactive controls (`formControlName`, `[formControl]`) */
+  protected readonly contentNgControl = contentChild(NgControl);
 
   readonly #hostNgModel = inject(NgModel, { self: true, optional: true });
   readonly #hostNgModelGroup = inject(NgModelGroup, {
     self: true,
     optional: true,
   });
+  readonly #hostNgControl = inject(NgControl, { self: true, optional: true });
   readonly #injector = inject(Injector);
 
   /**
@@ -84,17 +96,42 @@ export class FormControlStateDirective {
   readonly #formDirective = inject(FormDirective, { optional: true });
 
   /**
-   * Computed signal for the active control (NgModel or NgModelGroup)
+   * Optional formatter (e.g. i18n) applied to error and warning messages.
+   */
+  readonly #messageFormatter = inject(NGX_ERROR_MESSAGE_FORMATTER, {
+    optional: true,
+  });
+
+  /**
+   * Computed signal for the active control (NgModel, NgModelGroup or a reactive control)
    */
   readonly #activeControl = computed(
     (): AbstractControlDirective | null =>
       this.#hostNgModel ||
       this.#hostNgModelGroup ||
+      this.#hostNgControl ||
       this.contentNgModel() ||
       this.contentNgModelGroup() ||
+      this.contentNgControl() ||
       null
   );
 
+  /**
+   * The `AbstractControl` of the active control, e.g. to read its value.
+   */
+  readonly control = computed(
+    (): AbstractControl | null => this.#activeControl()?.control ?? null
+  );
+
+  /**
+   * Dotted field path of the active control, e.g. `passwords.password`.
+   * NgModel.path returns an array like ['passwords', 'password'] which needs to be joined
+   */
+  readonly fieldPath = computed((): string => {
+    const path = (this.#activeControl() as { path?: string[] } | null)?.path;
+    return path?.length ? path.join('.') : '';
+  });
+
   /**
    * Consolidated internal signal for interaction state tracking.
    * Combines touched, dirty, and hasBeenValidated into a single signal
@@ -318,9 +355,19 @@ export class FormControlStateDirective {
   }
 
   /**
-   * Extracts error messages from Angular/Vest errors (recursively flattens)
+   * Extracts error messages from Angular/Vest errors (recursively flattens),
+   * formatted with `NGX_ERROR_MESSAGE_FORMATTER` when one is provided.
    */
-  readonly errorMessages = computed((): string[] => {
+  readonly errorMessages = computed((): string[] =>
+    formatMessages(
+      this.#messageFormatter,
+      this.fieldPath(),
+      this.#rawErrorMessages(),
+      'error'
+    )
+  );
+
+  readonly #rawErrorMessages = computed((): string[] => {
     const { errors } = this.controlState();
     if (!errors) return [];
 
@@ -344,7 +391,11 @@ export class FormControlStateDirective {
    */
   readonly updateOn = computed((): 'change' | 'blur' | 'submit' => {
     const ngModel = this.contentNgModel() || this.#hostNgModel;
-    return ngModel?.options?.updateOn ?? 'change';
+    return (
+      ngModel?.options?.updateOn ??
+      this.#activeControl()?.control?.updateOn ??
+      'change'
+    );
   });
 
   /**
@@ -360,21 +411,36 @@ export class FormControlStateDirective {
     () => this.isInvalid() && this.isTouched() && !this.isPending()
   );
 
+  /**
+   * Warning messages, formatted with `NGX_ERROR_MESSAGE_FORMATTER` when one is provided.
+   */
+  readonly warningMessages = computed((): string[] =>
+    formatMessages(
+      this.#messageFormatter,
+      this.fieldPath(),
+      this.#rawWarningMessages(),
+      'warning'
+    )
+  );
+
   /**
    * Extracts warning messages from Vest validation results.
-   * Checks two sources:
+   * Checks three sources:
    * 1. control.errors.warnings (when errors exist alongside warnings)
    * 2. FormDirective.fieldWarnings (for warnings-only scenarios)
-   * This dual-source approach allows warnings to be displayed without affecting field validity.
+   * 3. Warnings kept by `vestValidator` (warnings-only reactive controls)
+   * This multi-source approach allows warnings to be displayed without affecting field validity.
    */
-  readonly warningMessages = computed((): string[] => {
+  readonly #rawWarningMessages = computed((): string[] => {
     // Source 1: warnings from control.errors (when field has errors)
     const { errors } = this.controlState();
 
     // Always read fieldWarnings signal to ensure reactive tracking
     // This must be read unconditionally for proper signal dependency tracking
     const fieldWarnings = this.#formDirective?.fieldWarnings();
-    const activeControl = this.#activeControl();
+    const fieldPath = this.fieldPath();
+    const control = this.#activeControl()?.control;
+    const reactiveWarnings = control ? getControlWarnings(control)() : [];
 
     // If we have warnings in control.errors, use those (errors+warnings case)
     if (errors?.warnings) {
@@ -384,20 +450,37 @@ export class FormControlStateDirective {
     // Source 2: warnings from FormDirective (for warnings-only scenarios)
     // When a field only has warnings (no errors), they're stored in fieldWarnings
     // to keep the field valid while still allowing warnings to be displayed.
-    if (fieldWarnings && activeControl) {
-      // Get the field path from the control's path property
-      // NgModel.path returns an array like ['passwords', 'password'] which needs to be joined
-      const path = (activeControl as { path?: string[] }).path;
-      if (path?.length) {
-        const fieldPath = path.join('.');
-        const warnings = fieldWarnings.get(fieldPath);
-        if (warnings) {
-          return [...warnings];
-        }
+    if (fieldWarnings && fieldPath) {
+      const warnings = fieldWarnings.get(fieldPath);
+      if (warnings) {
+        return [...warnings];
       }
     }
 
-    return [];
+    // Source 3: warnings of reactive controls validated with vestValidator()
+    return [...reactiveWarnings];
+  });
+
+  /**
+   * Errors followed by warnings as structured issues (message, severity, field,
+   * test name and params), for UI that groups or styles messages by severity.
+   */
+  readonly issues = computed((): NgxValidationIssue[] => {
+    const fieldPath = this.fieldPath();
+    return [
+      ...createValidationIssues(
+        this.#messageFormatter,
+        fieldPath,
+        this.#rawErrorMessages(),
+        'error'
+      ),
+      ...createValidationIssues(
+        this.#messageFormatter,
+        fieldPath,
+        this.#rawWarningMessages(),
+        'warning'
+      ),
+    ];
   });
 
   /**
@@ -9,6 +9,10 @@ import {
   OnDestroy,
   signal,
 } from '@angular/core';
+import {
+  DEFAULT_PENDING_DEBOUNCE,
+  NGX_VEST_FORMS_CONFIG,
+} from '../tokens/config.token';
 import {
   AriaAssociationMode,
   mergeAriaDescribedBy,
@@ -45,15 +49,18 @@ export class FormErrorControlDirective implements AfterContentInit, OnDestroy {
   });
 
   private readonly elementRef = inject(ElementRef<HTMLElement>);
+  private readonly config = inject(NGX_VEST_FORMS_CONFIG);
 
   /**
    * Controls how this directive applies ARIA attributes to descendant controls.
    *
-   * - `all-controls` (default): apply ARIA attributes to all input/select/textarea descendants.
+   * - `all-controls` (default unless `provideNgxVestForms` sets one): apply ARIA attributes to all input/select/textarea descendants.
    * - `single-control`: apply ARIA attributes only when exactly one control is found.
    * - `none`: do not mutate descendant controls.
    */
-  readonly ariaAssociationMode = input<AriaAssociationMode>('all-controls');
+  readonly ariaAssociationMode = input<AriaAssociationMode>(
+    this.config.ariaAssociationMode ?? 'all-controls'
+  );
 
   /**
    * Unique ID prefix for this instance.
@@ -70,7 +77,7 @@ export class FormErrorControlDirective implements AfterContentInit, OnDestroy {
 
   private readonly pendingState = createDebouncedPendingState(
     this.errorDisplay.isPending,
-    { showAfter: 500, minimumDisplay: 500 }
+    { ...DEFAULT_PENDING_DEBOUNCE, ...this.config.pendingDebounce }
   );
   readonly showPendingMessage = this.pendingState.showPendingMessage;
 
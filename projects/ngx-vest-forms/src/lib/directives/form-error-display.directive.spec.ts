@@ -285,7 +285,9 @@ describe('FormErrorDisplayDirective', () => {
     await TestBed.inject(ApplicationRef).whenStable();
 
     expect(consoleSpy).toHaveBeenCalledWith(
-      '[ngx-vest-forms] Potential UX issue: errorDisplayMode is "on-blur" but updateOn is "submit". Errors will only show after form submission, not after blur.'
+      expect.stringContaining(
+        '[ngx-vest-forms] [NGX-016] Potential UX issue: errorDisplayMode is "on-blur" but updateOn is "submit".'
+      )
     );
     consoleSpy.mockRestore();
   });
@@ -537,5 +539,43 @@ describe('FormErrorDisplayDirective', () => {
         )
         .toBe('true');
     });
+
+    it('should show errors after blur, then update them live in on-blur-then-live mode', async () => {
+      host.mode = 'on-blur-then-live';
+      await TestBed.inject(ApplicationRef).whenStable();
+
+      const input: HTMLInputElement =
+        fixture.nativeElement.querySelector('input');
+      const shouldShowErrors = () =>
+        fixture.nativeElement.querySelector('#should-show-errors')?.textContent;
+      const type = async (value: string) => {
+        input.value = value;
+        input.dispatchEvent(new Event('input', { bubbles: true }));
+        await TestBed.inject(ApplicationRef).whenStable();
+      };
+
+      // Invalid while typing, but not punished before the field is left
+      input.focus();
+      await type('a');
+      await type('');
+      expect(shouldShowErrors()).toBe('false');
+
+      input.blur();
+      input.dispatchEvent(new FocusEvent('focusout', { bubbles: true }));
+      await expect.poll(shouldShowErrors).toBe('true');
+
+      // Rewarded on the keystroke that fixes it
+      input.focus();
+      await type('b');
+      await expect.poll(shouldShowErrors).toBe('false');
+
+      // Editing the now valid field does not punish until it is left again
+      await type('');
+      expect(shouldShowErrors()).toBe('false');
+
+      input.blur();
+      input.dispatchEvent(new FocusEvent('focusout', { bubbles: true }));
+      await expect.poll(shouldShowErrors).toBe('true');
+    });
   });
 });
@@ -1,22 +1,82 @@
 import {
+  afterNextRender,
   computed,
+  DestroyRef,
   Directive,
   effect,
   inject,
   input,
   signal,
   Signal,
+  WritableSignal,
 } from '@angular/core';
-import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
-import { FormResetEvent, FormSubmittedEvent, NgForm } from '@angular/forms';
-import { filter, map, startWith } from 'rxjs';
+import { AbstractControl, FormGroupDirective, NgForm } from '@angular/forms';
+import {
+  NGX_VEST_FORMS_ERRORS,
+  reportDiagnostic,
+} from '../errors/error-catalog';
+import { NGX_VEST_FORMS_DIAGNOSTICS_SINK } from '../tokens/diagnostics-sink.token';
 import {
   NGX_ERROR_DISPLAY_MODE_TOKEN,
   NGX_WARNING_DISPLAY_MODE_TOKEN,
   SC_ERROR_DISPLAY_MODE_TOKEN,
 } from './error-display-mode.token';
-import { FormControlStateDirective } from './form-control-state.directive';
-import { getFormSubmittedSignal } from './form-submitted-state';
+import {
+  FormControlState,
+  FormControlStateDirective,
+} from './form-control-state.directive';
+import {
+  getFormSubmittedSignal,
+  trackFormSubmittedState,
+} from './form-submitted-state';
+import { FormDirective } from './form.directive';
+
+/**
+ * What a display mode predicate receives to decide whether messages are shown.
+ */
+export type NgxDisplayModeContext = {
+  /** What is decided: errors, warnings, or the success state of a valid field (with empty `messages`) */
+  readonly kind: 'error' | 'warning' | 'success';
+  /** State of the field's control (touched, dirty, status, errors…) */
+  readonly controlState: FormControlState;
+  /** Whether the form has been submitted */
+  readonly formSubmitted: boolean;
+  /** Whether the field was validated, also without user interaction (e.g. by `validationConfig`) */
+  readonly hasBeenValidated: boolean;
+  /** The messages to show: errors for `errorDisplayMode`, warnings for `warningDisplayMode` */
+  readonly messages: readonly string[];
+  /** The field's control, e.g. to read its value; `null` when it cannot be resolved */
+  readonly control: AbstractControl | null;
+  /** Dotted path of the field, e.g. `address.street`; empty when it cannot be resolved */
+  readonly fieldPath: string;
+  /** The enclosing `ngxVestForm`, e.g. to read `formState()`; `null` outside of one */
+  readonly form: FormDirective<Record<string, unknown>> | null;
+};
+
+/**
+ * A custom display rule. Return `true` to show the messages; it is only asked
+ * while there are messages (and never before submit for `updateOn: 'submit'`).
+ * As `errorDisplayMode`, it is also asked with `kind: 'success'` and empty
+ * `messages` whether a valid field shows its success state; return `false` for
+ * that kind to never confirm valid values.
+ *
+ * It runs inside a `computed`, so signals it reads, e.g. an inactivity timer
+ * or another section's `formState()`, re-evaluate it when they change.
+ *
+ * @example
+ * ```typescript
+ * /// Show errors once the value is longer than 3 characters, or after submit
+ * readonly afterThreeChars: NgxDisplayModePredicate = ({ control, formSubmitted }) =>
+ *   formSubmitted || String(control?.value ?? '').length > 3;
+ * ```
+ *
+ * ```html
+ * <ngx-control-wrapper [errorDisplayMode]="afterThreeChars">…</ngx-control-wrapper>
+ * ```
+ */
+export type NgxDisplayModePredicate = (
+  context: NgxDisplayModeContext
+) => boolean;
 
 /**
  * Error display modes for form controls.
@@ -24,42 +84,152 @@ import { getFormSubmittedSignal } from './form-submitted-state';
  * - 'on-submit': Show errors after form submission
  * - 'on-blur-or-submit': Show errors after blur or form submission (default)
  * - 'on-dirty': Show errors as soon as the field value changes
+ * - 'on-blur-then-live': Show errors after the field is left (or the form submitted); visible
+ *   errors then update on every keystroke and disappear as soon as the value is fixed.
+ *   Editing a valid field does not show new errors until it is left again.
  * - 'always': Show errors immediately, even on pristine fields
+ * - a {@link NgxDisplayModePredicate} for custom rules
  */
 export type ScErrorDisplayMode =
   | 'on-blur'
   | 'on-submit'
   | 'on-blur-or-submit'
   | 'on-dirty'
-  | 'always';
+  | 'on-blur-then-live'
+  | 'always'
+  | NgxDisplayModePredicate;
 
 /**
  * Warning display modes for form controls.
  * - 'on-touch': Show warnings after field is touched/blurred
  * - 'on-validated-or-touch': Show warnings after validation runs or field is touched (default)
  * - 'on-dirty': Show warnings as soon as the field value changes
+ * - 'on-blur-then-live': Like the error mode of the same name: show after the field is left,
+ *   then update live until the warnings are gone
  * - 'always': Show warnings immediately, even on pristine fields
+ * - a {@link NgxDisplayModePredicate} for custom rules
  */
 export type NgxWarningDisplayMode =
   | 'on-touch'
   | 'on-validated-or-touch'
   | 'on-dirty'
-  | 'always';
+  | 'on-blur-then-live'
+  | 'always'
+  | NgxDisplayModePredicate;
 
 export const SC_ERROR_DISPLAY_MODE_DEFAULT: ScErrorDisplayMode =
   'on-blur-or-submit';
 export const SC_WARNING_DISPLAY_MODE_DEFAULT: NgxWarningDisplayMode =
   'on-validated-or-touch';
 
+/**
+ * @internal
+ * Field state the error display modes decide on.
+ */
+export type ErrorDisplayState = {
+  readonly isTouched: boolean;
+  readonly isDirty: boolean;
+  readonly formSubmitted: boolean;
+  /** `ngModelOptions.updateOn` of the control; `'submit'` waits for submit in every mode */
+  readonly updateOn?: string;
+  /** `on-blur-then-live`: see {@link getErrorsArmedSignal} */
+  readonly armed: boolean;
+};
+
+/**
+ * @internal
+ * Whether the error display mode reveals a field's errors, given it has any.
+ *
+ * Shared by `FormErrorDisplayDirective` and `ngx-form-error-summary`, so the
+ * summary lists exactly the errors the fields show. The predicate context is
+ * only built for predicate modes.
+ */
+export function isErrorDisplayModeRevealed(
+  mode: ScErrorDisplayMode,
+  state: ErrorDisplayState,
+  context: () => NgxDisplayModeContext
+): boolean {
+  const { isTouched, isDirty, formSubmitted } = state;
+
+  // Always only show errors after submit if updateOn is 'submit'
+  if (state.updateOn === 'submit') {
+    return formSubmitted;
+  }
+
+  if (typeof mode === 'function') {
+    return mode(context());
+  }
+
+  switch (mode) {
+    case 'always':
+      // Always show errors immediately, even on pristine fields
+      return true;
+
+    case 'on-dirty':
+      // Show when value has changed, OR when touched/submitted (for backwards compat)
+      return isDirty || isTouched || formSubmitted;
+
+    case 'on-blur':
+      // Show after touch (blur) or form submission (traditional behavior, not dirty-based)
+      return isTouched || formSubmitted;
+
+    case 'on-submit':
+      // Show only after form submission
+      return formSubmitted;
+
+    case 'on-blur-then-live':
+      // Show after leaving the field, then live until fixed (reward early, punish late).
+      // isTouched drops the armed state when the form is reset.
+      return (state.armed && isTouched) || formSubmitted;
+
+    case 'on-blur-or-submit':
+    default:
+      // Show after blur (touch) OR submit (default behavior)
+      return isTouched || formSubmitted;
+  }
+}
+
+const errorsArmedSignals = new WeakMap<
+  AbstractControl,
+  WritableSignal<boolean>
+>();
+
+/**
+ * @internal
+ * `on-blur-then-live` state of a control's errors, shared by every display of
+ * them: whether they may show once the control is touched. Editing the control
+ * while its errors are hidden clears it; leaving the control sets it again.
+ */
+export function getErrorsArmedSignal(
+  control: AbstractControl
+): WritableSignal<boolean> {
+  let armed = errorsArmedSignals.get(control);
+  if (!armed) {
+    armed = signal(true);
+    errorsArmedSignals.set(control, armed);
+  }
+  return armed;
+}
+
 @Directive({
   selector: '[formErrorDisplay], [ngxErrorDisplay]',
   exportAs: 'formErrorDisplay, ngxErrorDisplay',
   hostDirectives: [FormControlStateDirective],
+  host: {
+    '(focusout)': 'onFocusOut()',
+    '(input)': 'onInput()',
+  },
 })
 export class FormErrorDisplayDirective {
   readonly #formControlState = inject(FormControlStateDirective);
-  // Optionally inject NgForm for form submission tracking
-  readonly #ngForm = inject(NgForm, { optional: true });
+  readonly #destroyRef = inject(DestroyRef);
+  readonly #diagnostics = inject(NGX_VEST_FORMS_DIAGNOSTICS_SINK);
+  readonly #formDirective: FormDirective<Record<string, unknown>> | null =
+    inject(FormDirective, { optional: true });
+  // Optionally inject NgForm (or FormGroupDirective for reactive forms) for form submission tracking
+  readonly #ngForm =
+    inject(NgForm, { optional: true }) ??
+    inject(FormGroupDirective, { optional: true });
   readonly #formSubmittedState = this.#ngForm
     ? getFormSubmittedSignal(this.#ngForm)
     : signal(false);
@@ -87,6 +257,7 @@ export class FormErrorDisplayDirective {
   readonly controlState = this.#formControlState.controlState;
   readonly errorMessages = this.#formControlState.errorMessages;
   readonly warningMessages = this.#formControlState.warningMessages;
+  readonly issues = this.#formControlState.issues;
   readonly hasPendingValidation = this.#formControlState.hasPendingValidation;
   readonly isTouched = this.#formControlState.isTouched;
   readonly isDirty = this.#formControlState.isDirty;
@@ -111,33 +282,50 @@ export class FormErrorDisplayDirective {
    */
   readonly formSubmitted: Signal<boolean> = this.#formSubmittedState;
 
+  /**
+   * `on-blur-then-live`: whether messages may show once the field is touched.
+   * Editing the field while they are hidden clears it; leaving the field sets it.
+   * The errors' state is shared with the error summary through the control.
+   */
+  readonly #errorsArmed: Signal<WritableSignal<boolean>> = computed(() => {
+    const control = this.#formControlState.control();
+    return control ? getErrorsArmedSignal(control) : signal(true);
+  });
+  readonly #warningsArmed = signal(true);
+
+  /**
+   * Whether errors (or warnings) are visible, as of the last settled validation.
+   * Updated by an effect, so an edit reads the state from before its own validation.
+   */
+  #errorsShown = false;
+  #warningsShown = false;
+
   constructor() {
     const ngForm = this.#ngForm;
-    if (ngForm) {
-      ngForm.form.events
-        .pipe(
-          filter(
-            (event) =>
-              event.source === ngForm.form &&
-              (event instanceof FormSubmittedEvent ||
-                event instanceof FormResetEvent)
-          ),
-          map((event) => event instanceof FormSubmittedEvent),
-          startWith(ngForm.submitted),
-          takeUntilDestroyed()
-        )
-        .subscribe((submitted) => {
-          this.#formSubmittedState.set(submitted);
-        });
+    if (ngForm?.form) {
+      trackFormSubmittedState(ngForm, this.#destroyRef);
+    } else if (ngForm) {
+      // FormGroupDirective receives its FormGroup through an input,
+      // which is not set yet while this directive is constructed.
+      afterNextRender(() => trackFormSubmittedState(ngForm, this.#destroyRef));
     }
 
+    effect(() => {
+      if (!this.hasPendingValidation()) {
+        this.#errorsShown = this.shouldShowErrors();
+        this.#warningsShown = this.shouldShowWarnings();
+      }
+    });
+
     // Warn about problematic combinations of updateOn and errorDisplayMode
     effect(() => {
       const mode = this.errorDisplayMode();
       const updateOn = this.updateOn();
       if (updateOn === 'submit' && mode === 'on-blur') {
-        console.warn(
-          '[ngx-vest-forms] Potential UX issue: errorDisplayMode is "on-blur" but updateOn is "submit". Errors will only show after form submission, not after blur.'
+        reportDiagnostic(
+          this.#diagnostics,
+          NGX_VEST_FORMS_ERRORS.UPDATE_ON_CONFLICT,
+          []
         );
       }
     });
@@ -157,45 +345,67 @@ export class FormErrorDisplayDirective {
    * errors in these scenarios, providing better UX and proper ARIA attributes.
    */
   readonly shouldShowErrors: Signal<boolean> = computed(() => {
+    // Consider errors present if either we have error messages OR the control is invalid
+    // This handles the race condition where Angular marks control invalid before Vest errors propagate
+    const hasErrorState = this.errorMessages().length > 0 || this.isInvalid();
+
+    return (
+      hasErrorState &&
+      isErrorDisplayModeRevealed(
+        this.errorDisplayMode(),
+        {
+          isTouched: this.isTouched(),
+          isDirty: this.isDirty(),
+          formSubmitted: this.formSubmitted(),
+          updateOn: this.updateOn(),
+          armed: this.#errorsArmed()(),
+        },
+        () => this.#displayModeContext('error', this.errorMessages())
+      )
+    );
+  });
+
+  /**
+   * Whether to confirm a valid value, e.g. the `ngx-control-wrapper--valid` class
+   * and success message. Follows the error display mode, so success shows where
+   * errors would have; `on-dirty` and `on-blur-then-live` confirm as soon as an
+   * edit makes the field valid.
+   */
+  readonly shouldShowSuccess: Signal<boolean> = computed(() => {
     const mode = this.errorDisplayMode();
+    const { isValid, isPending } = this.controlState();
     const isTouched = this.isTouched();
     const isDirty = this.isDirty();
-    const isInvalid = this.isInvalid();
-    const hasErrors = this.errorMessages().length > 0;
-    const updateOn = this.updateOn();
     const formSubmitted = this.formSubmitted();
 
-    // Consider errors present if either we have error messages OR the control is invalid
-    // This handles the race condition where Angular marks control invalid before Vest errors propagate
-    const hasErrorState = hasErrors || isInvalid;
+    if (!isValid || isPending || this.errorMessages().length > 0) {
+      return false;
+    }
+
+    if (this.updateOn() === 'submit') {
+      return formSubmitted;
+    }
 
-    // Always only show errors after submit if updateOn is 'submit'
-    if (updateOn === 'submit') {
-      return !!(formSubmitted && hasErrorState);
+    if (typeof mode === 'function') {
+      return mode(this.#displayModeContext('success', []));
     }
 
-    // Handle the new display modes
     switch (mode) {
       case 'always':
-        // Always show errors immediately, even on pristine fields
-        return hasErrorState;
+        return true;
 
       case 'on-dirty':
-        // Show when value has changed, OR when touched/submitted (for backwards compat)
-        return !!(isDirty || isTouched || formSubmitted) && hasErrorState;
-
-      case 'on-blur':
-        // Show after touch (blur) or form submission (traditional behavior, not dirty-based)
-        return !!(isTouched || formSubmitted) && hasErrorState;
+      case 'on-blur-then-live':
+        // Reward early: confirm as soon as an edit makes the field valid
+        return isDirty || isTouched || formSubmitted;
 
       case 'on-submit':
-        // Show only after form submission
-        return !!(formSubmitted && hasErrorState);
+        return formSubmitted;
 
+      case 'on-blur':
       case 'on-blur-or-submit':
       default:
-        // Show after blur (touch) OR submit (default behavior)
-        return !!((isTouched || formSubmitted) && hasErrorState);
+        return isTouched || formSubmitted;
     }
   });
 
@@ -255,6 +465,10 @@ export class FormErrorDisplayDirective {
       return false;
     }
 
+    if (typeof mode === 'function') {
+      return mode(this.#displayModeContext('warning', this.warningMessages()));
+    }
+
     // Handle the warning display modes
     switch (mode) {
       case 'always':
@@ -269,10 +483,56 @@ export class FormErrorDisplayDirective {
         // Show after touch (blur) or form submission (traditional behavior, not dirty-based)
         return isTouched || formSubmitted;
 
+      case 'on-blur-then-live':
+        // Show after leaving the field, then live until the warnings are gone
+        return (this.#warningsArmed() && isTouched) || formSubmitted;
+
       case 'on-validated-or-touch':
       default:
         // Show after validation runs or after touch/submit (default behavior)
         return hasBeenValidated || isTouched || formSubmitted;
     }
   });
+
+  /**
+   * Context passed to display mode predicates.
+   */
+  #displayModeContext(
+    kind: NgxDisplayModeContext['kind'],
+    messages: readonly string[]
+  ): NgxDisplayModeContext {
+    return {
+      kind,
+      controlState: this.controlState(),
+      formSubmitted: this.formSubmitted(),
+      hasBeenValidated: this.hasBeenValidated(),
+      messages,
+      control: this.#formControlState.control(),
+      fieldPath: this.#formControlState.fieldPath(),
+      form: this.#formDirective,
+    };
+  }
+
+  /**
+   * Host handler: a descendant control lost focus.
+   * Arms `on-blur-then-live`, so current and upcoming messages are shown.
+   */
+  onFocusOut(): void {
+    this.#errorsArmed().set(true);
+    this.#warningsArmed.set(true);
+  }
+
+  /**
+   * Host handler: a descendant control was edited.
+   * In `on-blur-then-live`, visible messages stay live; without visible messages,
+   * new ones wait until the field is left again.
+   */
+  onInput(): void {
+    if (!this.#errorsShown) {
+      this.#errorsArmed().set(false);
+    }
+    if (!this.#warningsShown) {
+      this.#warningsArmed.set(false);
+    }
+  }
 }
@@ -1,4 +1,4 @@
-import { Directive, inject, input } from '@angular/core';
+import { Directive, ElementRef, inject, input } from '@angular/core';
 import {
   AbstractControl,
   AsyncValidator,
@@ -6,9 +6,13 @@ import {
   ValidationErrors,
 } from '@angular/forms';
 import { Observable } from 'rxjs';
+import { NGX_VEST_FORMS_CONFIG } from '../tokens/config.token';
+import { NGX_VEST_FORMS_DIAGNOSTICS_SINK } from '../tokens/diagnostics-sink.token';
+import { registerControlElement } from '../utils/control-element.utils';
 import { getFormControlField } from '../utils/form-utils';
 import { runAsyncValidationBridge } from './async-validator-bridge';
 import { FormDirective } from './form.directive';
+import { ValidationGroupDirective } from './validation-group.directive';
 import { ValidationOptions } from './validation-options';
 
 /**
@@ -30,9 +34,17 @@ export class FormModelDirective implements AsyncValidator {
   /**
    * Per-control async validation options.
    *
-   * Defaults to no debounce (`{ debounceTime: 0 }`).
+   * Defaults to no debounce (`{ debounceTime: 0 }`), or the `validationOptions`
+   * of `provideNgxVestForms`.
    */
-  validationOptions = input<ValidationOptions>({ debounceTime: 0 });
+  validationOptions = input<ValidationOptions>(
+    inject(NGX_VEST_FORMS_CONFIG).validationOptions ?? { debounceTime: 0 }
+  );
+  private readonly elementRef = inject<ElementRef<HTMLElement>>(ElementRef);
+  private readonly validationGroup = inject(ValidationGroupDirective, {
+    optional: true,
+  });
+  private readonly diagnostics = inject(NGX_VEST_FORMS_DIAGNOSTICS_SINK);
   /**
    * Reference to the form that needs to be validated
    * Injected optionally so that using ngModel outside of an ngxVestForm
@@ -50,6 +62,7 @@ export class FormModelDirective implements AsyncValidator {
    * Returns `null` (fail-open) when used outside an `ngxVestForm` context.
    */
   validate(control: AbstractControl): Observable<ValidationErrors | null> {
+    registerControlElement(control, this.elementRef.nativeElement);
     return runAsyncValidationBridge(
       control,
       this.formDirective,
@@ -59,7 +72,9 @@ export class FormModelDirective implements AsyncValidator {
         return getFormControlField(context.ngForm.control, currentControl);
       },
       this.validationOptions(),
-      'FormModelDirective'
+      'FormModelDirective',
+      this.validationGroup?.ngxValidationGroup(),
+      this.diagnostics
     );
   }
 }
@@ -0,0 +1,190 @@
+import { Component, signal, viewChild } from '@angular/core';
+import { render } from '@testing-library/angular';
+import { enforce, only, staticSuite, test as vestTest } from 'vest';
+import { describe, expect, it, vi } from 'vitest';
+import { NgxVestForms } from '../exports';
+import {
+  NgxFormPersistMigration,
+  NgxFormPersistStorage,
+  NgxPersistedFormState,
+} from '../utils/form-persist.utils';
+import { FormDirective } from './form.directive';
+
+type ContactModel = {
+  name?: string;
+  email?: string;
+};
+
+function createMemoryStorage(
+  initial: Record<string, NgxPersistedFormState> = {}
+): NgxFormPersistStorage & { items: Map<string, NgxPersistedFormState> } {
+  const items = new Map(Object.entries(initial));
+  return {
+    items,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, state) => {
+      items.set(key, state);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+}
+
+function draft(
+  overrides: Partial<NgxPersistedFormState> = {}
+): NgxPersistedFormState {
+  return {
+    version: 1,
+    value: { name: 'Jane', email: '' },
+    touched: ['email'],
+    dirty: ['name'],
+    submitted: false,
+    savedAt: 0,
+    ...overrides,
+  };
+}
+
+const contactSuite = staticSuite((model: ContactModel, field?: string) => {
+  only(field);
+  vestTest('email', 'Email is required', () => {
+    enforce(model.email).isNotBlank();
+  });
+});
+
+@Component({
+  imports: [NgxVestForms],
+  template: `
+    <form
+      ngxVestForm
+      ngxFormPersist="contact"
+      [persistStorage]="storage"
+      [persistDebounceTime]="0"
+      [persistMigrate]="migrate"
+      [suite]="suite"
+      [formValue]="formValue()"
+      (formValueChange)="formValue.set($event)"
+      (draftRestored)="restored.push($event)"
+      #vest="ngxVestForm"
+    >
+      <input name="name" [ngModel]="formValue().name" />
+      <input name="email" [ngModel]="formValue().email" />
+    </form>
+  `,
+})
+class TestPersistHost {
+  formValue = signal<ContactModel>({});
+  suite = contactSuite;
+  storage = createMemoryStorage();
+  migrate: NgxFormPersistMigration | null = null;
+  restored: NgxPersistedFormState[] = [];
+  readonly vestForm =
+    viewChild.required<FormDirective<Record<string, unknown>>>('vest');
+}
+
+async function renderHost(
+  storage = createMemoryStorage(),
+  migrate: NgxFormPersistMigration | null = null
+) {
+  const { fixture } = await render(TestPersistHost, {
+    componentProperties: { storage, migrate },
+  });
+  fixture.detectChanges();
+  await fixture.whenStable();
+  return { fixture, host: fixture.componentInstance, storage };
+}
+
+describe('FormPersistDirective', () => {
+  it('should restore value and interaction state from storage', async () => {
+    const { host } = await renderHost(
+      createMemoryStorage({ contact: draft() })
+    );
+
+    await expect.poll(() => host.formValue().name).toBe('Jane');
+    const form = host.vestForm().ngForm.form;
+    expect(form.get('name')?.dirty).toBe(true);
+    expect(form.get('email')?.touched).toBe(true);
+    expect(host.restored).toHaveLength(1);
+  });
+
+  it('should validate fields once, against the draft of an async storage', async () => {
+    const memory = createMemoryStorage({
+      contact: draft({ value: { name: 'Jane', email: 'jane@example.com' } }),
+    });
+    const storage: TestPersistHost['storage'] = {
+      ...memory,
+      getItem: async (key) => {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        return memory.getItem(key);
+      },
+    };
+    const validatedEmails: unknown[] = [];
+    const suite = ((model: ContactModel, field?: string) => {
+      if (field === 'email') {
+        validatedEmails.push(model.email);
+      }
+      return contactSuite(model, field);
+    }) as typeof contactSuite;
+
+    const { fixture } = await render(TestPersistHost, {
+      componentProperties: { storage, suite },
+    });
+    const host = fixture.componentInstance;
+
+    await expect.poll(() => host.formValue().email).toBe('jane@example.com');
+    await expect
+      .poll(() => host.vestForm().ngForm.form.get('email')?.status)
+      .toBe('VALID');
+    expect(validatedEmails).toEqual(['jane@example.com']);
+  });
+
+  it('should save changes after the debounce time', async () => {
+    const { fixture, host, storage } = await renderHost();
+
+    host.vestForm().ngForm.form.get('email')?.setValue('jane@example.com');
+    host.vestForm().ngForm.form.get('email')?.markAsTouched();
+    fixture.detectChanges();
+
+    await expect
+      .poll(() => storage.items.get('contact')?.value)
+      .toEqual({ name: undefined, email: 'jane@example.com' });
+    expect(storage.items.get('contact')?.touched).toContain('email');
+  });
+
+  it('should discard drafts with another version when no migration is given', async () => {
+    const storage = createMemoryStorage({ contact: draft({ version: 0 }) });
+    const { host } = await renderHost(storage);
+
+    await expect.poll(() => storage.items.has('contact')).toBe(false);
+    expect(host.formValue().name).toBeUndefined();
+    expect(host.restored).toEqual([]);
+  });
+
+  it('should migrate drafts stored with another version', async () => {
+    const migrate = vi.fn<NgxFormPersistMigration>((state) => ({
+      ...state,
+      version: 1,
+      value: { name: 'Migrated' },
+    }));
+    const { host } = await renderHost(
+      createMemoryStorage({ contact: draft({ version: 0 }) }),
+      migrate
+    );
+
+    await expect.poll(() => host.formValue().name).toBe('Migrated');
+    expect(migrate).toHaveBeenCalledOnce();
+  });
+
+  it('should clear the draft after a valid submit', async () => {
+    const storage = createMemoryStorage({
+      contact: draft({ value: { name: 'Jane', email: 'jane@example.com' } }),
+    });
+    const { fixture, host } = await renderHost(storage);
+    await expect.poll(() => host.formValue().email).toBe('jane@example.com');
+
+    host.vestForm().ngForm.onSubmit(new Event('submit'));
+    fixture.detectChanges();
+
+    await expect.poll(() => storage.items.has('contact')).toBe(false);
+  });
+});
@@ -0,0 +1,275 @@
+import {
+  afterNextRender,
+  DestroyRef,
+  Directive,
+  inject,
+  input,
+  isDevMode,
+  output,
+  untracked,
+} from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import {
+  FormSubmittedEvent,
+  PristineChangeEvent,
+  TouchedChangeEvent,
+  ValueChangeEvent,
+} from '@angular/forms';
+import {
+  filter,
+  from,
+  map,
+  merge as rxMerge,
+  Subject,
+  switchMap,
+  timer,
+} from 'rxjs';
+import {
+  NGX_VEST_FORMS_ERRORS,
+  reportDiagnostic,
+} from '../errors/error-catalog';
+import { NGX_VEST_FORMS_DIAGNOSTICS_SINK } from '../tokens/diagnostics-sink.token';
+import { NGX_FORM_PERSIST_STORAGE } from '../tokens/form-persist.token';
+import { parseFieldPath } from '../utils/field-path.utils';
+import {
+  collectLeafControlPaths,
+  isPersistedFormState,
+  NgxFormPersistMigration,
+  NgxFormPersistStorage,
+  NgxPersistedFormState,
+  pruneToShape,
+} from '../utils/form-persist.utils';
+import { mergeValuesAndRawValues } from '../utils/form-utils';
+import {
+  getFormSubmittedSignal,
+  setAngularFormSubmittedState,
+} from './form-submitted-state';
+import { FormDirective } from './form.directive';
+
+/**
+ * Opt-in draft persistence for `ngxVestForm`.
+ *
+ * Saves the form value (including disabled fields), the touched and dirty field
+ * paths and the submitted state under the given key, restores them as soon as
+ * the fields are rendered and removes the draft once a submit settles as valid.
+ * Field validation waits for the restore, so fields validate once, against the
+ * draft rather than the empty model.
+ *
+ * - Storage is pluggable: `[persistStorage]` or the `NGX_FORM_PERSIST_STORAGE`
+ *   token (default: `localStorage`).
+ * - Drafts stored with another `persistVersion` are passed to `persistMigrate`,
+ *   or discarded when there is none.
+ * - When the form has a `formShape`, properties that are not part of it are dropped
+ *   from the restored value.
+ *
+ * @example
+ * ```html
+ * <form
+ *   ngxVestForm
+ *   ngxFormPersist="travel-booking"
+ *   [persistVersion]="2"
+ *   [suite]="suite"
+ *   [formValue]="formValue()"
+ *   (formValueChange)="formValue.set($event)"
+ * >
+ * ```
+ */
+@Directive({
+  selector: 'form[ngxFormPersist]',
+  exportAs: 'ngxFormPersist',
+})
+export class FormPersistDirective<T extends Record<string, unknown>> {
+  private readonly formDirective = inject<FormDirective<T>>(FormDirective, {
+    self: true,
+  });
+  private readonly destroyRef = inject(DestroyRef);
+  private readonly defaultStorage = inject(NGX_FORM_PERSIST_STORAGE);
+  private readonly diagnostics = inject(NGX_VEST_FORMS_DIAGNOSTICS_SINK);
+
+  /**
+   * Storage key of the draft.
+   */
+  readonly ngxFormPersist = input.required<string>();
+
+  /**
+   * Storage adapter for this form. Defaults to `NGX_FORM_PERSIST_STORAGE`.
+   */
+  readonly persistStorage = input<NgxFormPersistStorage | null>(null);
+
+  /**
+   * Version of the stored shape. Bump it when the form model changes incompatibly.
+   */
+  readonly persistVersion = input(1);
+
+  /**
+   * Upgrades drafts stored with another version. Without it, such drafts are discarded.
+   */
+  readonly persistMigrate = input<NgxFormPersistMigration | null>(null);
+
+  /**
+   * Time (in milliseconds) to wait after the last change before saving.
+   */
+  readonly persistDebounceTime = input(300);
+
+  /**
+   * Triggered after a stored draft has been applied to the form.
+   */
+  readonly draftRestored = output<NgxPersistedFormState<T>>();
+
+  /**
+   * Saving stays disabled until the stored draft has been restored,
+   * so the initial (empty) form never overwrites it.
+   */
+  #restored = false;
+
+  readonly #clear$ = new Subject<void>();
+
+  constructor() {
+    const form = this.formDirective.ngForm.form;
+
+    let releaseValidation!: () => void;
+    this.formDirective.holdValidation(
+      new Promise<void>((resolve) => (releaseValidation = resolve))
+    );
+    // Never rendered (e.g. on the server): nothing to restore, do not keep holding
+    this.destroyRef.onDestroy(() => releaseValidation());
+
+    afterNextRender(() => {
+      void this.#restore().finally(releaseValidation);
+    });
+
+    const save$ = form.events.pipe(
+      filter(
+        (event) =>
+          event instanceof ValueChangeEvent ||
+          event instanceof TouchedChangeEvent ||
+          event instanceof PristineChangeEvent ||
+          event instanceof FormSubmittedEvent
+      ),
+      filter(() => this.#restored),
+      map(() => 'save' as const)
+    );
+
+    /**
+     * switchMap drops a pending save when the draft is cleared,
+     * so a successful submit is not followed by a stale save.
+     */
+    rxMerge(save$, this.#clear$.pipe(map(() => 'clear' as const)))
+      .pipe(
+        switchMap((action) =>
+          action === 'clear'
+            ? from(this.#runStorage((storage, key) => storage.removeItem(key)))
+            : timer(this.persistDebounceTime()).pipe(
+                switchMap(() =>
+                  from(
+                    this.#runStorage((storage, key) =>
+                      storage.setItem(key, this.#snapshot())
+                    )
+                  )
+                )
+              )
+        ),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe();
+
+    this.formDirective.validSubmit.subscribe(() => this.clearDraft());
+  }
+
+  /**
+   * Removes the stored draft. Later changes are saved again.
+   */
+  clearDraft(): void {
+    this.#clear$.next();
+  }
+
+  #snapshot(): NgxPersistedFormState<T> {
+    const form = this.formDirective.ngForm.form;
+    return {
+      version: untracked(this.persistVersion),
+      value: mergeValuesAndRawValues<T>(form),
+      touched: untracked(this.formDirective.touchedFieldPaths),
+      dirty: collectLeafControlPaths(form, (control) => control.dirty),
+      submitted: this.formDirective.ngForm.submitted,
+      savedAt: Date.now(),
+    };
+  }
+
+  async #restore(): Promise<void> {
+    const stored = await this.#runStorage((storage, key) =>
+      storage.getItem(key)
+    );
+
+    if (isPersistedFormState(stored)) {
+      const state = this.#migrate(stored);
+      if (state) {
+        this.#apply(state);
+      } else {
+        await this.#runStorage((storage, key) => storage.removeItem(key));
+      }
+    }
+
+    this.#restored = true;
+  }
+
+  #migrate(state: NgxPersistedFormState): NgxPersistedFormState | null {
+    if (state.version === this.persistVersion()) {
+      return state;
+    }
+    const migrate = this.persistMigrate();
+    return migrate ? migrate(state) : null;
+  }
+
+  #apply(state: NgxPersistedFormState): void {
+    const ngForm = this.formDirective.ngForm;
+    const shape = this.formDirective.formShape();
+    const value = (
+      shape ? pruneToShape(state.value, shape) : state.value
+    ) as T | null;
+
+    if (value) {
+      // Emits a value change, so formValueChange hands the draft to the model
+      ngForm.form.patchValue(value);
+    }
+    for (const path of state.dirty) {
+      ngForm.form.get(parseFieldPath(path))?.markAsDirty();
+    }
+    for (const path of state.touched) {
+      ngForm.form.get(parseFieldPath(path))?.markAsTouched();
+    }
+    if (state.submitted) {
+      setAngularFormSubmittedState(ngForm, true);
+      getFormSubmittedSignal(ngForm).set(true);
+    }
+
+    this.draftRestored.emit({
+      ...state,
+      value: value as T,
+    });
+  }
+
+  /**
+   * Runs a storage operation for the current key. Storage failures (quota,
+   * private mode, corrupt JSON) never break the form; they are logged in dev mode.
+   *
+   * @returns The operation result, or `undefined` when it failed.
+   */
+  async #runStorage<R>(
+    operation: (storage: NgxFormPersistStorage, key: string) => R | Promise<R>
+  ): Promise<R | undefined> {
+    const storage = untracked(this.persistStorage) ?? this.defaultStorage;
+    try {
+      return await operation(storage, untracked(this.ngxFormPersist));
+    } catch (error) {
+      if (isDevMode()) {
+        reportDiagnostic(
+          this.diagnostics,
+          NGX_VEST_FORMS_ERRORS.STORAGE_FAILED,
+          [],
+          error
+        );
+      }
+      return undefined;
+    }
+  }
+}
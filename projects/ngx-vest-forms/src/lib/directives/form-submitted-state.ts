@@ -1,7 +1,17 @@
-import { signal, WritableSignal } from '@angular/core';
-import { NgForm } from '@angular/forms';
+import { DestroyRef, signal, WritableSignal } from '@angular/core';
+import {
+  FormGroup,
+  FormGroupDirective,
+  FormResetEvent,
+  FormSubmittedEvent,
+  NgForm,
+} from '@angular/forms';
+import { filter, map, Subscription } from 'rxjs';
 
-const formSubmittedSignals = new WeakMap<NgForm, WritableSignal<boolean>>();
+const formSubmittedSignals = new WeakMap<
+  NgForm | FormGroupDirective,
+  WritableSignal<boolean>
+>();
 
 type AngularSubmittedSignalHost = {
   submittedReactive?: WritableSignal<boolean>;
@@ -9,7 +19,7 @@ type AngularSubmittedSignalHost = {
 };
 
 export function getFormSubmittedSignal(
-  ngForm: NgForm
+  ngForm: NgForm | FormGroupDirective
 ): WritableSignal<boolean> {
   let submitted = formSubmittedSignals.get(ngForm);
   if (!submitted) {
@@ -19,6 +29,51 @@ export function getFormSubmittedSignal(
   return submitted;
 }
 
+const submittedTrackers = new WeakMap<
+  FormGroup,
+  { consumers: number; subscription: Subscription }
+>();
+
+/**
+ * Keeps the shared submitted signal in sync with the submit and reset events of
+ * the form. All consumers of a `FormGroup` share one subscription, which ends
+ * when the last of them is destroyed.
+ */
+export function trackFormSubmittedState(
+  ngForm: NgForm | FormGroupDirective,
+  destroyRef: DestroyRef
+): void {
+  const form = ngForm.form;
+  let tracker = submittedTrackers.get(form);
+  if (!tracker) {
+    const submitted = getFormSubmittedSignal(ngForm);
+    submitted.set(ngForm.submitted);
+    const subscription = form.events
+      .pipe(
+        filter(
+          (event) =>
+            event.source === form &&
+            (event instanceof FormSubmittedEvent ||
+              event instanceof FormResetEvent)
+        ),
+        map((event) => event instanceof FormSubmittedEvent)
+      )
+      .subscribe((value) => submitted.set(value));
+    tracker = { consumers: 0, subscription };
+    submittedTrackers.set(form, tracker);
+  }
+
+  const current = tracker;
+  current.consumers++;
+  destroyRef.onDestroy(() => {
+    current.consumers--;
+    if (current.consumers === 0) {
+      current.subscription.unsubscribe();
+      submittedTrackers.delete(form);
+    }
+  });
+}
+
 export function setAngularFormSubmittedState(
   ngForm: NgForm,
   submitted: boolean
@@ -4,8 +4,24 @@ import { render } from '@testing-library/angular';
 import { isObservable, Observable } from 'rxjs';
 import { enforce, only, staticSuite, test as vestTest, warn } from 'vest';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
-import { FormDirective } from '../directives/form.directive';
+import { ROOT_FORM } from '../constants';
+import {
+  FormDirective,
+  NgxShapeValidationMode,
+} from '../directives/form.directive';
+import { NgxDiagnostic } from '../errors/error-catalog';
 import { NgxVestForms } from '../exports';
+import { provideNgxVestForms } from '../tokens/config.token';
+import { NGX_VEST_FORMS_DIAGNOSTICS_SINK } from '../tokens/diagnostics-sink.token';
+import { NGX_ERROR_MESSAGE_FORMATTER } from '../tokens/error-message-formatter.token';
+import { NGX_VEST_FORMS_TRACER } from '../tokens/tracer.token';
+import {
+  messageWithParams,
+  NgxErrorMessageFormatter,
+} from '../utils/error-message.utils';
+import { NgxShapeMismatch } from '../utils/shape-validation';
+import { NgxTraceEvent } from '../utils/tracing.utils';
+import { NgxValidationPolicyMap } from './validation-options';
 // Helper to await either a Promise or Observable
 async function awaitResult<T>(result: Promise<T> | Observable<T>) {
   if (isObservable(result)) {
@@ -477,6 +493,42 @@ describe('FormDirective - ValidationConfig', () => {
       email: ['username'],
     });
   });
+
+  it('should report cycles and fields missing from the shape once', async () => {
+    @Component({
+      selector: 'test-validation-config-analysis',
+      template: `<form
+        ngxVestForm
+        [formShape]="shape"
+        [validationConfig]="validationConfig()"
+      ></form>`,
+
+      imports: [NgxVestForms],
+    })
+    class TestValidationConfigAnalysis {
+      shape = { username: '', email: '', phone: '' };
+      validationConfig = signal<{ [key: string]: string[] }>({
+        username: ['email'],
+        email: ['phone'],
+        phone: ['username', 'emial'],
+      });
+    }
+    const diagnostics: NgxDiagnostic[] = [];
+    const { fixture } = await render(TestValidationConfigAnalysis, {
+      providers: [
+        {
+          provide: NGX_VEST_FORMS_DIAGNOSTICS_SINK,
+          useValue: (diagnostic: NgxDiagnostic) => diagnostics.push(diagnostic),
+        },
+      ],
+    });
+    fixture.detectChanges();
+
+    expect(diagnostics.map(({ code, message }) => [code, message])).toEqual([
+      ['NGX-019', expect.stringContaining('email → phone → username → email')],
+      ['NGX-020', expect.stringContaining("'emial'")],
+    ]);
+  });
 });
 
 describe('FormDirective - Model to Form Synchronization', () => {
@@ -605,6 +657,29 @@ describe('FormDirective - triggerFormValidation', () => {
     instance.vestForm().triggerFormValidation();
     expect(mockFn).toHaveBeenCalledWith({ emitEvent: true });
   });
+
+  it('should report an unknown path to the diagnostics sink', async () => {
+    const diagnostics: NgxDiagnostic[] = [];
+    const { fixture } = await render(TestTriggerValidationHost, {
+      providers: [
+        {
+          provide: NGX_VEST_FORMS_DIAGNOSTICS_SINK,
+          useValue: (diagnostic: NgxDiagnostic) => diagnostics.push(diagnostic),
+        },
+      ],
+    });
+
+    fixture.componentInstance.vestForm().triggerFormValidation('nmae');
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        code: 'NGX-003',
+        severity: 'warning',
+        message: expect.stringContaining("'nmae'"),
+        docsUrl: expect.stringContaining('DIAGNOSTICS.md#ngx-003'),
+      }),
+    ]);
+  });
 });
 
 describe('FormDirective - clearSubmittedState', () => {
@@ -920,6 +995,27 @@ describe('FormDirective - first invalid helpers', () => {
     expect(focusSpy).not.toHaveBeenCalled();
   });
 
+  it('uses the firstInvalid defaults of provideNgxVestForms', async () => {
+    const { fixture } = await render(TestFirstInvalidHost, {
+      providers: [
+        provideNgxVestForms({
+          firstInvalid: { invalidSelector: 'input[aria-invalid="true"]' },
+        }),
+      ],
+    });
+    fixture.detectChanges();
+    await fixture.whenStable();
+
+    const target = expectElement(
+      fixture.nativeElement.querySelector('#aria-invalid-input'),
+      '#aria-invalid-input'
+    );
+
+    expect(
+      fixture.componentInstance.vestForm().scrollToFirstInvalidControl()
+    ).toBe(target);
+  });
+
   it('scrollToFirstInvalidControl does not move focus', async () => {
     const { fixture } = await render(TestFirstInvalidHost);
     fixture.detectChanges();
@@ -1075,6 +1171,172 @@ describe('FormDirective - Shape Validation', () => {
     fixture.detectChanges();
     expect(consoleWarnSpy).not.toHaveBeenCalled();
   });
+
+  it('should report shape fields without a control once per distinct report', async () => {
+    @Component({
+      selector: 'test-missing-control-host',
+      template: `<form
+        ngxVestForm
+        [formShape]="{ username: '', email: '' }"
+        [formValue]="formValue()"
+        (formValueChange)="formValue.set($event)"
+      >
+        <input name="username" [ngModel]="formValue().username" />
+      </form>`,
+      imports: [NgxVestForms],
+    })
+    class TestMissingControlHost {
+      formValue = signal<{ username?: string; email?: string }>({
+        email: 'jane@example.com',
+      });
+    }
+    const groupSpy = vi
+      .spyOn(console, 'groupCollapsed')
+      .mockImplementation(() => undefined);
+    const { fixture } = await render(TestMissingControlHost);
+    await fixture.whenStable();
+
+    for (const username of ['j', 'ja', 'jane']) {
+      fixture.componentInstance.formValue.set({
+        username,
+        email: 'jane@example.com',
+      });
+      fixture.detectChanges();
+      await fixture.whenStable();
+    }
+
+    await expect.poll(() => groupSpy.mock.calls.length).toBe(1);
+    expect(consoleWarnSpy).toHaveBeenCalledTimes(1);
+    expect(String(consoleWarnSpy.mock.calls[0][0])).toContain(
+      "[NGX-006] Missing control: Property 'email'"
+    );
+    groupSpy.mockRestore();
+  });
+
+  it('should not report shape fields of an @if branch that is not rendered', async () => {
+    @Component({
+      selector: 'test-conditional-field-host',
+      template: `<form
+        ngxVestForm
+        [formShape]="{ username: '', reason: '' }"
+        [formValue]="formValue()"
+        (formValueChange)="formValue.set($event)"
+      >
+        <input name="username" [ngModel]="formValue().username" />
+        @if (formValue().username === 'other') {
+          <input name="reason" [ngModel]="formValue().reason" />
+        }
+      </form>`,
+      imports: [NgxVestForms],
+    })
+    class TestConditionalFieldHost {
+      // Like an initial model that declares every field, hidden ones included
+      formValue = signal<{ username?: string; reason?: string }>({
+        username: 'jane',
+        reason: '',
+      });
+    }
+    const { fixture } = await render(TestConditionalFieldHost);
+    await fixture.whenStable();
+    fixture.detectChanges();
+    await fixture.whenStable();
+
+    expect(consoleWarnSpy).not.toHaveBeenCalled();
+  });
+
+  describe('shapeValidation mode', () => {
+    @Component({
+      selector: 'test-shape-mode-host',
+      template: `<form
+        ngxVestForm
+        [formShape]="{ username: '' }"
+        [shapeValidation]="mode"
+        [formValue]="formValue()"
+        (shapeMismatch)="reports.push($event)"
+      ></form>`,
+      imports: [NgxVestForms],
+    })
+    class TestShapeModeHost {
+      mode: NgxShapeValidationMode = 'always';
+      formValue = signal<Record<string, string>>({ username: 'jane' });
+      readonly reports: NgxShapeMismatch[][] = [];
+    }
+
+    it('should emit shapeMismatch once per distinct set of mismatches', async () => {
+      const groupSpy = vi
+        .spyOn(console, 'groupCollapsed')
+        .mockImplementation(() => undefined);
+      const { fixture } = await render(TestShapeModeHost);
+      const host = fixture.componentInstance;
+
+      host.formValue.set({ usernmae: 'jane' });
+      fixture.detectChanges();
+      host.formValue.set({ usernmae: 'janet' });
+      fixture.detectChanges();
+      host.formValue.set({ username: 'jane' });
+      fixture.detectChanges();
+
+      expect(host.reports).toEqual([
+        [expect.objectContaining({ code: 'NGX-001', path: 'usernmae' })],
+      ]);
+      groupSpy.mockRestore();
+    });
+
+    it('should not emit shapeMismatch for a conditional section that is not rendered', async () => {
+      @Component({
+        selector: 'test-shape-mode-conditional-host',
+        template: `<form
+          ngxVestForm
+          shapeValidation="always"
+          [formShape]="{ username: '', shipping: { street: '' } }"
+          [formValue]="formValue()"
+          (formValueChange)="formValue.set($event)"
+          (shapeMismatch)="reports.push($event)"
+        >
+          <input name="username" [ngModel]="formValue().username" />
+          @if (showShipping()) {
+            <div ngModelGroup="shipping">
+              <input name="street" [ngModel]="formValue().shipping?.street" />
+            </div>
+          }
+        </form>`,
+        imports: [NgxVestForms],
+      })
+      class TestConditionalSectionHost {
+        formValue = signal<{
+          username?: string;
+          shipping?: { street?: string };
+        }>({
+          username: 'jane',
+          shipping: { street: '' },
+        });
+        showShipping = signal(false);
+        readonly reports: NgxShapeMismatch[][] = [];
+      }
+      const { fixture } = await render(TestConditionalSectionHost);
+      await fixture.whenStable();
+      const host = fixture.componentInstance;
+
+      host.formValue.set({ username: 'janet' });
+      fixture.detectChanges();
+      await fixture.whenStable();
+
+      expect(host.reports).toEqual([]);
+    });
+
+    it("should not check the shape when set to 'off'", async () => {
+      const { fixture } = await render(TestShapeModeHost, {
+        componentProperties: { mode: 'off' },
+      });
+      const host = fixture.componentInstance;
+
+      host.formValue.set({ usernmae: 'jane' });
+      fixture.detectChanges();
+
+      expect(host.reports).toEqual([]);
+      expect(consoleWarnSpy).not.toHaveBeenCalled();
+    });
+  });
 });
 
 describe('FormDirective - FormState Memoization', () => {
@@ -1225,3 +1487,916 @@ describe('FormDirective - FormState Memoization', () => {
     expect(instance.vestForm().formState().valid).toBe(false);
   });
 });
+
+describe('FormDirective - Server errors', () => {
+  @Component({
+    selector: 'test-server-errors-host',
+    template: `
+      <form
+        ngxVestForm
+        [suite]="suite"
+        [formValue]="formValue()"
+        (formValueChange)="formValue.set($event)"
+        #vest="ngxVestForm"
+      >
+        <ngx-control-wrapper>
+          <input name="email" [ngModel]="formValue().email" />
+        </ngx-control-wrapper>
+        <input name="username" [ngModel]="formValue().username" />
+      </form>
+    `,
+    imports: [NgxVestForms],
+  })
+  class TestServerErrorsHost {
+    formValue = signal<{ email?: string; username?: string }>({
+      email: 'taken@example.com',
+      username: 'john',
+    });
+    suite = staticSuite(
+      (model: { email?: string; username?: string }, field?: string) => {
+        only(field);
+        vestTest('username', 'Username is required', () => {
+          enforce(model.username).isNotBlank();
+        });
+      }
+    );
+    readonly vestForm =
+      viewChild.required<FormDirective<Record<string, unknown>>>('vest');
+  }
+
+  async function renderHost() {
+    const { fixture } = await render(TestServerErrorsHost);
+    fixture.detectChanges();
+    await fixture.whenStable();
+    return { fixture, vestForm: fixture.componentInstance.vestForm() };
+  }
+
+  it('should merge server errors into control errors and formState', async () => {
+    const { fixture, vestForm } = await renderHost();
+
+    vestForm.setServerErrors({
+      email: ['Email is already taken'],
+      rootForm: ['Account quota exceeded'],
+    });
+    fixture.detectChanges();
+
+    const emailControl = vestForm.ngForm.form.get('email');
+    expect(emailControl?.errors).toEqual({
+      errors: ['Email is already taken'],
+      serverErrors: ['Email is already taken'],
+    });
+    expect(vestForm.formState().errors['email']).toEqual([
+      'Email is already taken',
+    ]);
+    expect(vestForm.formState().errors['rootForm']).toEqual([
+      'Account quota exceeded',
+    ]);
+    expect(vestForm.formState().valid).toBe(false);
+    expect(vestForm.serverErrors()).toEqual({
+      email: ['Email is already taken'],
+      rootForm: ['Account quota exceeded'],
+    });
+  });
+
+  it('should render server errors through the control wrapper', async () => {
+    const { fixture, vestForm } = await renderHost();
+
+    vestForm.setServerErrors({ email: ['Email is already taken'] });
+    vestForm.markAllAsTouched();
+    fixture.detectChanges();
+    await fixture.whenStable();
+
+    await expect
+      .poll(() => fixture.nativeElement.textContent)
+      .toContain('Email is already taken');
+  });
+
+  it("should clear a field's server errors when its value changes", async () => {
+    const { fixture, vestForm } = await renderHost();
+
+    vestForm.setServerErrors({
+      email: ['Email is already taken'],
+      username: ['Username is reserved'],
+      rootForm: ['Account quota exceeded'],
+    });
+
+    vestForm.ngForm.form.get('email')?.setValue('new@example.com');
+    fixture.detectChanges();
+    await fixture.whenStable();
+
+    expect(vestForm.serverErrors()).toEqual({
+      username: ['Username is reserved'],
+    });
+    await expect
+      .poll(() => vestForm.formState().errors['username'])
+      .toEqual(['Username is reserved']);
+    expect(vestForm.formState().errors['email']).toBeUndefined();
+    expect(vestForm.formState().errors['rootForm']).toBeUndefined();
+  });
+
+  it('should keep server errors when validation re-runs without a value change', async () => {
+    const { fixture, vestForm } = await renderHost();
+
+    vestForm.setServerErrors({
+      username: ['Username is reserved'],
+      rootForm: ['Account quota exceeded'],
+    });
+    vestForm.triggerFormValidation('username');
+    vestForm.triggerFormValidation();
+    fixture.detectChanges();
+    await fixture.whenStable();
+
+    await expect
+      .poll(() => vestForm.formState().errors['username'])
+      .toEqual(['Username is reserved']);
+    expect(vestForm.formState().errors['rootForm']).toEqual([
+      'Account quota exceeded',
+    ]);
+  });
+
+  it('should remove server errors on clearServerErrors()', async () => {
+    const { fixture, vestForm } = await renderHost();
+
+    vestForm.setServerErrors({
+      email: ['Email is already taken'],
+      rootForm: ['Account quota exceeded'],
+    });
+    vestForm.clearServerErrors(['rootForm']);
+    fixture.detectChanges();
+
+    expect(vestForm.formState().errors['rootForm']).toBeUndefined();
+    expect(vestForm.formState().errors['email']).toEqual([
+      'Email is already taken',
+    ]);
+
+    vestForm.clearServerErrors();
+    fixture.detectChanges();
+
+    expect(vestForm.ngForm.form.get('email')?.errors).toBeNull();
+    await expect.poll(() => vestForm.formState().valid).toBe(true);
+    expect(vestForm.formState().errors).toEqual({});
+  });
+
+  it('should report server errors for unknown paths in formState', async () => {
+    const { vestForm } = await renderHost();
+
+    vestForm.setServerErrors({ 'address.street': ['Street not found'] });
+
+    expect(vestForm.formState().errors['address.street']).toEqual([
+      'Street not found',
+    ]);
+    expect(vestForm.formState().valid).toBe(false);
+  });
+});
+
+describe('FormDirective - Submit orchestration', () => {
+  @Component({
+    selector: 'test-submit-host',
+    template: `
+      <form
+        ngxVestForm
+        [suite]="suite"
+        [formValue]="formValue()"
+        [onInvalidSubmit]="onInvalidSubmit()"
+        (formValueChange)="formValue.set($event)"
+        (validSubmit)="validSubmits.push($event)"
+        (invalidSubmit)="invalidSubmits.push($event)"
+        #vest="ngxVestForm"
+      >
+        <ngx-control-wrapper>
+          <label for="submit-email">Email</label>
+          <input id="submit-email" name="email" [ngModel]="formValue().email" />
+        </ngx-control-wrapper>
+      </form>
+    `,
+    imports: [NgxVestForms],
+  })
+  class TestSubmitHost {
+    formValue = signal<{ email?: string }>({});
+    onInvalidSubmit = signal<'focus' | 'scroll' | 'none'>('none');
+    validSubmits: { email?: string }[] = [];
+    invalidSubmits: Record<string, string[]>[] = [];
+    suite = staticSuite((model: { email?: string }, field?: string) => {
+      only(field);
+      vestTest('email', 'Email is required', () => {
+        enforce(model.email).isNotBlank();
+      });
+    });
+    readonly vestForm =
+      viewChild.required<FormDirective<Record<string, unknown>>>('vest');
+  }
+
+  async function renderHost() {
+    const { fixture } = await render(TestSubmitHost);
+    fixture.detectChanges();
+    await fixture.whenStable();
+    const host = fixture.componentInstance;
+    const submit = async () => {
+      host.vestForm().ngForm.onSubmit(new Event('submit'));
+      fixture.detectChanges();
+      await fixture.whenStable();
+    };
+    return { fixture, host, submit };
+  }
+
+  it('should emit invalidSubmit with the errors map when the form is invalid', async () => {
+    const { host, submit } = await renderHost();
+
+    await submit();
+
+    await expect.poll(() => host.invalidSubmits.length).toBe(1);
+    expect(host.invalidSubmits[0]).toEqual({ email: ['Email is required'] });
+    expect(host.validSubmits).toEqual([]);
+  });
+
+  it('should emit validSubmit with the form value when the form is valid', async () => {
+    const { fixture, host, submit } = await renderHost();
+    host.formValue.set({ email: 'jane@example.com' });
+    fixture.detectChanges();
+    await fixture.whenStable();
+
+    await submit();
+
+    await expect
+      .poll(() => host.validSubmits)
+      .toEqual([{ email: 'jane@example.com' }]);
+    expect(host.invalidSubmits).toEqual([]);
+  });
+
+  it('should include server errors in invalidSubmit', async () => {
+    const { fixture, host, submit } = await renderHost();
+    host.formValue.set({ email: 'taken@example.com' });
+    fixture.detectChanges();
+    await fixture.whenStable();
+    host.vestForm().setServerErrors({ rootForm: ['Account locked'] });
+
+    await submit();
+
+    await expect
+      .poll(() => host.invalidSubmits)
+      .toEqual([{ rootForm: ['Account locked'] }]);
+    expect(host.validSubmits).toEqual([]);
+  });
+
+  it('should focus the first invalid control when onInvalidSubmit is "focus"', async () => {
+    const { fixture, host, submit } = await renderHost();
+    host.onInvalidSubmit.set('focus');
+    fixture.detectChanges();
+
+    await submit();
+
+    await expect
+      .poll(() => document.activeElement)
+      .toBe(fixture.nativeElement.querySelector('#submit-email'));
+  });
+
+  it('should scroll without moving focus when onInvalidSubmit is "scroll"', async () => {
+    const { fixture, host, submit } = await renderHost();
+    host.onInvalidSubmit.set('scroll');
+    fixture.detectChanges();
+    const input = expectElement(
+      fixture.nativeElement.querySelector('#submit-email') as HTMLElement,
+      '#submit-email'
+    );
+    const scrollSpy = vi.spyOn(input, 'scrollIntoView');
+
+    await submit();
+
+    await expect.poll(() => scrollSpy.mock.calls.length).toBe(1);
+    expect(document.activeElement).not.toBe(input);
+  });
+
+  it('should leave focus alone by default', async () => {
+    const { fixture, host, submit } = await renderHost();
+    const input = fixture.nativeElement.querySelector('#submit-email');
+
+    await submit();
+
+    await expect.poll(() => host.invalidSubmits.length).toBe(1);
+    expect(document.activeElement).not.toBe(input);
+  });
+});
+
+describe('FormDirective - Error message formatter', () => {
+  const locale = signal<'en' | 'nl'>('en');
+  const translations: Record<string, Record<string, string>> = {
+    en: { 'errors.required': 'Required', 'errors.root': 'Check the form' },
+    nl: {
+      'errors.required': 'Verplicht',
+      'errors.root': 'Controleer het formulier',
+    },
+  };
+
+  @Component({
+    selector: 'test-formatter-host',
+    template: `
+      <form
+        ngxVestForm
+        [suite]="suite"
+        [formValue]="formValue()"
+        (formValueChange)="formValue.set($event)"
+        #vest="ngxVestForm"
+      >
+        <ngx-control-wrapper>
+          <input name="email" [ngModel]="formValue().email" />
+        </ngx-control-wrapper>
+      </form>
+    `,
+    imports: [NgxVestForms],
+  })
+  class TestFormatterHost {
+    formValue = signal<{ email?: string }>({});
+    suite = staticSuite((model: { email?: string }, field?: string) => {
+      only(field);
+      vestTest('email', 'errors.required', () => {
+        enforce(model.email).isNotBlank();
+      });
+    });
+    readonly vestForm =
+      viewChild.required<FormDirective<Record<string, unknown>>>('vest');
+  }
+
+  async function renderHost() {
+    locale.set('en');
+    const { fixture } = await render(TestFormatterHost, {
+      providers: [
+        {
+          provide: NGX_ERROR_MESSAGE_FORMATTER,
+          useValue: (({ message }) =>
+            translations[locale()]?.[message] ??
+            message) satisfies NgxErrorMessageFormatter,
+        },
+      ],
+    });
+    fixture.detectChanges();
+    await fixture.whenStable();
+    return { fixture, vestForm: fixture.componentInstance.vestForm() };
+  }
+
+  it('should format field, ROOT_FORM and formState() messages', async () => {
+    const { fixture, vestForm } = await renderHost();
+
+    vestForm.setServerErrors({ rootForm: ['errors.root'] });
+    vestForm.markAllAsTouched();
+    fixture.detectChanges();
+
+    await expect
+      .poll(() => vestForm.formState().errors)
+      .toEqual({ email: ['Required'], rootForm: ['Check the form'] });
+    await expect
+      .poll(() => fixture.nativeElement.textContent)
+      .toContain('Required');
+  });
+
+  it('should re-render messages on locale switch without revalidating', async () => {
+    const { fixture, vestForm } = await renderHost();
+    vestForm.markAllAsTouched();
+    fixture.detectChanges();
+    await expect
+      .poll(() => vestForm.formState().errors['email'])
+      .toEqual(['Required']);
+    const emailControl = vestForm.ngForm.form.get('email');
+    if (!emailControl) {
+      throw new Error('Expected the email control to be registered');
+    }
+    const validateSpy = vi.spyOn(emailControl, 'updateValueAndValidity');
+
+    locale.set('nl');
+    fixture.detectChanges();
+
+    expect(vestForm.formState().errors['email']).toEqual(['Verplicht']);
+    await expect
+      .poll(() => fixture.nativeElement.textContent)
+      .toContain('Verplicht');
+    expect(validateSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe('FormDirective - Validation issues', () => {
+  type IssuesModel = { email?: string; password?: string };
+
+  @Component({
+    selector: 'test-issues-host',
+    template: `
+      <form
+        ngxVestForm
+        [suite]="suite"
+        [formValue]="formValue()"
+        (formValueChange)="formValue.set($event)"
+        #vest="ngxVestForm"
+      >
+        <input name="email" [ngModel]="formValue().email" />
+        <input name="password" [ngModel]="formValue().password" />
+      </form>
+    `,
+    imports: [NgxVestForms],
+  })
+  class TestIssuesHost {
+    formValue = signal<IssuesModel>({ password: 'short' });
+    suite = staticSuite((model: IssuesModel, field?: string) => {
+      only(field);
+      vestTest('email', messageWithParams('errors.required', {}), () => {
+        enforce(model.email).isNotBlank();
+      });
+      vestTest(
+        'password',
+        messageWithParams('hints.length', { min: 8 }),
+        () => {
+          warn();
+          enforce(model.password).longerThanOrEquals(8);
+        }
+      );
+    });
+    readonly vestForm =
+      viewChild.required<FormDirective<Record<string, unknown>>>('vest');
+  }
+
+  it('should expose errors and warnings-only fields as structured issues', async () => {
+    const { fixture } = await render(TestIssuesHost);
+    fixture.detectChanges();
+    await fixture.whenStable();
+    const vestForm = fixture.componentInstance.vestForm();
+
+    await expect
+      .poll(() => vestForm.formState().issues)
+      .toEqual([
+        {
+          message: messageWithParams('errors.required', {}),
+          severity: 'error',
+          field: 'email',
+          testName: 'email',
+          key: 'errors.required',
+          params: {},
+        },
+        {
+          message: messageWithParams('hints.length', { min: 8 }),
+          severity: 'warning',
+          field: 'password',
+          testName: 'password',
+          key: 'hints.length',
+          params: { min: 8 },
+        },
+      ]);
+    expect(vestForm.formState().errors).toEqual({
+      email: [messageWithParams('errors.required', {})],
+    });
+  });
+});
+
+describe('FormDirective - Tracing', () => {
+  type TracingModel = { password?: string; confirmPassword?: string };
+
+  @Component({
+    selector: 'test-tracing-host',
+    template: `
+      <form
+        ngxVestForm
+        ngxValidateRootForm
+        [suite]="suite"
+        [validationConfig]="validationConfig"
+        [formValue]="formValue()"
+        (formValueChange)="formValue.set($event)"
+        #vest="ngxVestForm"
+      >
+        <input name="password" [ngModel]="formValue().password" />
+        <input name="confirmPassword" [ngModel]="formValue().confirmPassword" />
+        <button type="submit">Submit</button>
+      </form>
+    `,
+    imports: [NgxVestForms],
+  })
+  class TestTracingHost {
+    formValue = signal<TracingModel>({});
+    validationConfig = { password: ['confirmPassword'] };
+    suite = staticSuite((model: TracingModel, field?: string) => {
+      only(field);
+      vestTest('password', 'Password is required', () => {
+        enforce(model.password).isNotBlank();
+      });
+      vestTest('confirmPassword', 'Passwords do not match', () => {
+        enforce(model.confirmPassword).equals(model.password);
+      });
+      vestTest(ROOT_FORM, 'Passwords do not match', () => {
+        enforce(model.confirmPassword).equals(model.password);
+      });
+    });
+    readonly vestForm =
+      viewChild.required<FormDirective<Record<string, unknown>>>('vest');
+  }
+
+  async function renderHost() {
+    const events: NgxTraceEvent[] = [];
+    const { fixture } = await render(TestTracingHost, {
+      providers: [
+        {
+          provide: NGX_VEST_FORMS_TRACER,
+          useValue: (event: NgxTraceEvent) => events.push(event),
+        },
+      ],
+    });
+    fixture.detectChanges();
+    await fixture.whenStable();
+    return { fixture, events, vestForm: fixture.componentInstance.vestForm() };
+  }
+
+  const ofType = <K extends NgxTraceEvent['type']>(
+    events: NgxTraceEvent[],
+    type: K
+  ) =>
+    events.filter(
+      (event): event is Extract<NgxTraceEvent, { type: K }> =>
+        event.type === type
+    );
+
+  it('should trace suite runs with field, duration and messages', async () => {
+    const { events } = await renderHost();
+    const isPasswordRun = (event: NgxTraceEvent) =>
+      'field' in event && event.field === 'password';
+
+    await expect
+      .poll(() => ofType(events, 'suite-run-finish').filter(isPasswordRun))
+      .toContainEqual(
+        expect.objectContaining({
+          errors: ['Password is required'],
+          warnings: [],
+          durationMs: expect.any(Number),
+          timestamp: expect.any(Number),
+        })
+      );
+    const start = events.findIndex(
+      (event) => event.type === 'suite-run-start' && isPasswordRun(event)
+    );
+    const finish = events.findIndex(
+      (event) => event.type === 'suite-run-finish' && isPasswordRun(event)
+    );
+    expect(start).toBeGreaterThanOrEqual(0);
+    expect(start).toBeLessThan(finish);
+  });
+
+  it('should trace dependency triggers and sync decisions', async () => {
+    const { fixture, events, vestForm } = await renderHost();
+
+    vestForm.ngForm.form.get('password')?.setValue('secret');
+    fixture.detectChanges();
+
+    await expect
+      .poll(() => ofType(events, 'dependency-trigger'))
+      .toEqual([
+        expect.objectContaining({
+          trigger: 'password',
+          dependents: ['confirmPassword'],
+          revalidated: ['confirmPassword'],
+        }),
+      ]);
+    // formValueChange already updated the model when the sync effect runs
+    expect(ofType(events, 'sync').map((event) => event.decision)).toContain(
+      'converged'
+    );
+
+    fixture.componentInstance.formValue.set({ password: 'other' });
+    fixture.detectChanges();
+    await expect
+      .poll(() => ofType(events, 'sync').at(-1)?.decision)
+      .toBe('model-to-form');
+  });
+
+  it('should trace submit, root-form validation and reset', async () => {
+    const { fixture, events, vestForm } = await renderHost();
+
+    vestForm.ngForm.form.get('password')?.setValue('secret');
+    fixture.detectChanges();
+    (fixture.nativeElement as HTMLElement)
+      .querySelector<HTMLButtonElement>('button[type="submit"]')
+      ?.click();
+    fixture.detectChanges();
+
+    await expect
+      .poll(() => ofType(events, 'submit'))
+      .toEqual([expect.objectContaining({ valid: false })]);
+    expect(ofType(events, 'root-form-validation').at(-1)).toMatchObject({
+      errors: ['Passwords do not match'],
+      durationMs: expect.any(Number),
+    });
+
+    vestForm.resetForm();
+    expect(ofType(events, 'reset')).toEqual([
+      expect.objectContaining({ value: null }),
+    ]);
+  });
+});
+
+describe('FormDirective - Validation policy', () => {
+  type PolicyModel = {
+    email?: string;
+    password?: string;
+    nickname?: string;
+    phones?: { number?: string }[];
+  };
+
+  @Component({
+    selector: 'test-policy-host',
+    template: `
+      <form
+        ngxVestForm
+        [suite]="suite"
+        [validationPolicy]="policy"
+        [formValue]="formValue()"
+        (formValueChange)="formValue.set($event)"
+        #vest="ngxVestForm"
+      >
+        <input name="email" [ngModel]="formValue().email" />
+        <input name="password" [ngModel]="formValue().password" />
+        <input name="nickname" [ngModel]="formValue().nickname" />
+        <div ngModelGroup="phones">
+          <div ngModelGroup="0">
+            <input name="number" [ngModel]="formValue().phones?.[0]?.number" />
+          </div>
+        </div>
+        <button type="submit">Submit</button>
+      </form>
+    `,
+    imports: [NgxVestForms],
+  })
+  class TestPolicyHost {
+    formValue = signal<PolicyModel>({ phones: [{}] });
+    policy: NgxValidationPolicyMap<PolicyModel> = {
+      email: { skipWhenPristine: true },
+      password: { updateOn: 'blur' },
+      nickname: { updateOn: 'submit' },
+      'phones.number': { skipWhenPristine: true },
+    };
+    suite = staticSuite((model: PolicyModel, field?: string) => {
+      only(field);
+      vestTest('email', 'Email is required', () => {
+        enforce(model.email).isNotBlank();
+      });
+      vestTest('password', 'Password is too short', () => {
+        enforce(model.password ?? '').longerThanOrEquals(8);
+      });
+      vestTest('nickname', 'Nickname is required', () => {
+        enforce(model.nickname).isNotBlank();
+      });
+      // Template-driven groups hold array items as objects keyed by index
+      vestTest('phones.0.number', 'Number is required', () => {
+        enforce(model.phones?.[0]?.number).isNotBlank();
+      });
+    });
+    readonly vestForm =
+      viewChild.required<FormDirective<Record<string, unknown>>>('vest');
+  }
+
+  async function renderHost() {
+    const { fixture } = await render(TestPolicyHost);
+    fixture.detectChanges();
+    await fixture.whenStable();
+    const vestForm = fixture.componentInstance.vestForm();
+    const control = (path: string) => {
+      const found = vestForm.ngForm.form.get(path);
+      if (!found) {
+        throw new Error(`No control at '${path}'`);
+      }
+      return found;
+    };
+    const type = (path: string, value: string) => {
+      control(path).markAsDirty();
+      control(path).setValue(value);
+      fixture.detectChanges();
+    };
+    return { fixture, vestForm, control, type };
+  }
+
+  it('should skip validation of pristine fields, including array items', async () => {
+    const { vestForm, control, type } = await renderHost();
+
+    await expect.poll(() => vestForm.formState().errors).toEqual({});
+    expect(control('email').valid).toBe(true);
+    expect(control('phones.0.number').valid).toBe(true);
+
+    type('email', '');
+    await expect
+      .poll(() => control('email').errors)
+      .toEqual({ errors: ['Email is required'] });
+  });
+
+  it('should validate updateOn blur fields when they lose focus', async () => {
+    const { fixture, control, type } = await renderHost();
+    const input = (fixture.nativeElement as HTMLElement).querySelector(
+      'input[name="password"]'
+    );
+
+    type('password', 'short');
+    await fixture.whenStable();
+    expect(control('password').errors).toBeNull();
+
+    control('password').markAsTouched();
+    input?.dispatchEvent(new FocusEvent('focusout', { bubbles: true }));
+    await expect
+      .poll(() => control('password').errors)
+      .toEqual({ errors: ['Password is too short'] });
+
+    // Keeps the last result while the user types, until the next blur
+    type('password', 'long enough');
+    await fixture.whenStable();
+    expect(control('password').errors).toEqual({
+      errors: ['Password is too short'],
+    });
+    input?.dispatchEvent(new FocusEvent('focusout', { bubbles: true }));
+    await expect.poll(() => control('password').errors).toBeNull();
+  });
+
+  it('should validate deferred fields on submit', async () => {
+    const { fixture, vestForm, control } = await renderHost();
+
+    expect(control('nickname').errors).toBeNull();
+    (fixture.nativeElement as HTMLElement)
+      .querySelector<HTMLButtonElement>('button[type="submit"]')
+      ?.click();
+    fixture.detectChanges();
+
+    await expect
+      .poll(() => vestForm.formState().errors)
+      .toEqual({
+        email: ['Email is required'],
+        password: ['Password is too short'],
+        nickname: ['Nickname is required'],
+        'phones[0].number': ['Number is required'],
+      });
+  });
+});
+
+describe('FormDirective - Abort signal', () => {
+  type AbortModel = { username?: string };
+
+  @Component({
+    selector: 'test-abort-host',
+    template: `
+      <form
+        ngxVestForm
+        [suite]="suite"
+        [formValue]="formValue()"
+        (formValueChange)="formValue.set($event)"
+        #vest="ngxVestForm"
+      >
+        <input
+          name="username"
+          [ngModel]="formValue().username"
+          [validationOptions]="{ debounceTime }"
+        />
+      </form>
+    `,
+    imports: [NgxVestForms],
+  })
+  class TestAbortHost {
+    formValue = signal<AbortModel>({});
+    debounceTime = 0;
+    readonly runs: { value?: string; signal?: AbortSignal; taken(): void }[] =
+      [];
+    suite = staticSuite(
+      (
+        model: AbortModel,
+        field?: string,
+        _group?: string,
+        signal?: AbortSignal
+      ) => {
+        only(field);
+        vestTest('username', 'Username is taken', async () => {
+          await new Promise<void>((resolve, reject) =>
+            this.runs.push({ value: model.username, signal, taken: reject })
+          );
+        });
+      }
+    );
+    readonly vestForm =
+      viewChild.required<FormDirective<Record<string, unknown>>>('vest');
+  }
+
+  async function renderHost(debounceTime = 0) {
+    const { fixture } = await render(TestAbortHost, {
+      componentProperties: { debounceTime },
+    });
+    fixture.detectChanges();
+    await fixture.whenStable();
+    const host = fixture.componentInstance;
+    const control = host.vestForm().ngForm.form.get('username');
+    if (!control) {
+      throw new Error("No control at 'username'");
+    }
+    return { fixture, host, control };
+  }
+
+  it('should abort the running suite when the value changes', async () => {
+    const { host, control } = await renderHost();
+
+    control.setValue('jane');
+    await expect.poll(() => host.runs.at(-1)?.value).toBe('jane');
+    const staleRun = host.runs.at(-1);
+    control.setValue('janet');
+    await expect.poll(() => host.runs.at(-1)?.value).toBe('janet');
+
+    expect(staleRun?.signal?.aborted).toBe(true);
+    expect(host.runs.at(-1)?.signal?.aborted).toBe(false);
+
+    // The stale result must not leak into the newer run
+    staleRun?.taken();
+    await Promise.resolve();
+    expect(control.pending).toBe(true);
+    expect(control.errors).toBeNull();
+
+    host.runs.at(-1)?.taken();
+    await expect
+      .poll(() => control.errors)
+      .toEqual({ errors: ['Username is taken'] });
+  });
+
+  it('should abort running suites when the form is destroyed', async () => {
+    const { fixture, host, control } = await renderHost();
+
+    control.setValue('jane');
+    await expect.poll(() => host.runs.at(-1)?.value).toBe('jane');
+    fixture.destroy();
+
+    expect(host.runs.at(-1)?.signal?.aborted).toBe(true);
+  });
+
+  it('should skip a debounced run that fires after the form is destroyed', async () => {
+    const { fixture, host, control } = await renderHost(50);
+    const runs = host.runs.length;
+
+    control.setValue('jane');
+    fixture.destroy();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(host.runs.length).toBe(runs);
+    expect(control.errors).toBeNull();
+  });
+});
+
+describe('FormDirective - Validation cache', () => {
+  type CacheModel = { username?: string; country?: string };
+
+  @Component({
+    selector: 'test-cache-host',
+    template: `
+      <form
+        ngxVestForm
+        [suite]="suite"
+        [validationPolicy]="policy"
+        [formValue]="formValue()"
+        (formValueChange)="formValue.set($event)"
+        #vest="ngxVestForm"
+      >
+        <input name="username" [ngModel]="formValue().username" />
+        <input name="country" [ngModel]="formValue().country" />
+      </form>
+    `,
+    imports: [NgxVestForms],
+  })
+  class TestCacheHost {
+    formValue = signal<CacheModel>({});
+    readonly checked: (string | undefined)[] = [];
+    policy: NgxValidationPolicyMap<CacheModel> = {
+      username: { cache: { ttl: 60_000, dependsOn: ['country'] } },
+    };
+    suite = staticSuite((model: CacheModel, field?: string) => {
+      only(field);
+      vestTest('username', 'Username is taken', () => {
+        this.checked.push(model.username);
+        enforce(model.username).notEquals('jane');
+      });
+    });
+    readonly vestForm =
+      viewChild.required<FormDirective<Record<string, unknown>>>('vest');
+  }
+
+  it('should reuse results per value and dependency until cleared', async () => {
+    const { fixture } = await render(TestCacheHost);
+    fixture.detectChanges();
+    await fixture.whenStable();
+    const host = fixture.componentInstance;
+    const form = host.vestForm().ngForm.form;
+    const username = form.get('username');
+    const validate = async (value: string) => {
+      username?.setValue(value);
+      await expect.poll(() => username?.pending).toBe(false);
+    };
+
+    await validate('jane');
+    await validate('janet');
+    await validate('jane');
+    expect(username?.errors).toEqual({ errors: ['Username is taken'] });
+    expect(host.checked.filter(Boolean)).toEqual(['jane', 'janet']);
+
+    form.get('country')?.setValue('NL');
+    await validate('janet');
+    expect(host.checked.filter(Boolean)).toEqual(['jane', 'janet', 'janet']);
+
+    host.vestForm().clearValidationCache(['username']);
+    await validate('jane');
+    expect(host.checked.filter(Boolean)).toEqual([
+      'jane',
+      'janet',
+      'janet',
+      'jane',
+    ]);
+  });
+});
@@ -1,4 +1,5 @@
 import {
+  afterNextRender,
   ChangeDetectorRef,
   computed,
   DestroyRef,
@@ -6,10 +7,12 @@ import {
   effect,
   ElementRef,
   inject,
+  Injector,
   input,
   InputSignal,
   isDevMode,
   linkedSignal,
+  output,
   signal,
   untracked,
 } from '@angular/core';
@@ -36,24 +39,39 @@ import {
   distinctUntilChanged,
   EMPTY,
   filter,
+  from,
   map,
   Observable,
   of,
   race,
   merge as rxMerge,
   scan,
+  skip,
   startWith,
   switchMap,
   take,
   tap,
   timer,
 } from 'rxjs';
-import { logWarning, NGX_VEST_FORMS_ERRORS } from '../errors/error-catalog';
+import { ROOT_FORM } from '../constants';
+import {
+  NGX_VEST_FORMS_ERRORS,
+  reportDiagnostic,
+} from '../errors/error-catalog';
+import { NGX_VEST_FORMS_CONFIG } from '../tokens/config.token';
 import { NGX_VALIDATION_CONFIG_DEBOUNCE_TOKEN } from '../tokens/debounce.token';
+import { NGX_VEST_FORMS_DIAGNOSTICS_SINK } from '../tokens/diagnostics-sink.token';
+import { NGX_ERROR_MESSAGE_FORMATTER } from '../tokens/error-message-formatter.token';
+import { NGX_VEST_FORMS_TRACER } from '../tokens/tracer.token';
 import { DeepRequired } from '../utils/deep-required';
+import {
+  createDevtoolsRecorder,
+  NgxDevtoolsRecorder,
+} from '../utils/devtools.utils';
 import { fastDeepEqual } from '../utils/equality';
+import { formatErrorsMap } from '../utils/error-message.utils';
 import type { ValidationConfigMap } from '../utils/field-path-types';
-import { stringifyFieldPath } from '../utils/field-path.utils';
+import { parseFieldPath, stringifyFieldPath } from '../utils/field-path.utils';
 import {
   DEFAULT_FOCUS_SELECTOR,
   DEFAULT_INVALID_SELECTOR,
@@ -63,19 +81,46 @@ import {
   resolveFirstInvalidFocusTarget,
   resolveFirstInvalidScrollBehavior,
 } from '../utils/first-invalid.utils';
-import { NgxFormState } from '../utils/form-state.utils';
+import {
+  NgxFormState,
+  NgxValidationGroupState,
+} from '../utils/form-state.utils';
 import {
   getAllFormErrors,
   mergeValuesAndRawValues,
   setValueAtPath,
 } from '../utils/form-utils';
-import { validateShape } from '../utils/shape-validation';
+import {
+  applyServerErrors,
+  getServerErrorMessages,
+  removeServerErrors,
+} from '../utils/server-errors.utils';
+import {
+  collectShapeMismatches,
+  NgxShapeMismatch,
+  reportShapeMismatches,
+} from '../utils/shape-validation';
+import { emitTraceEvent } from '../utils/tracing.utils';
+import {
+  createValidationCache,
+  validationCacheKey,
+} from '../utils/validation-cache.utils';
+import {
+  analyzeValidationConfig,
+  reportValidationConfigAnalysis,
+} from '../utils/validation-config-analysis.utils';
+import { collectValidationIssues } from '../utils/validation-issue.utils';
 import { NgxTypedVestSuite, NgxVestSuite } from '../utils/validation-suite';
 import {
   getFormSubmittedSignal,
   setAngularFormSubmittedState,
 } from './form-submitted-state';
-import { ValidationOptions } from './validation-options';
+import {
+  NgxFieldValidationPolicy,
+  NgxValidationCacheOptions,
+  NgxValidationPolicy,
+  ValidationOptions,
+} from './validation-options';
 
 /**
  * Duration (in milliseconds) to keep fields marked as "in-progress" after validation.
@@ -93,6 +138,32 @@ export type NgxValidationConfig<T = unknown> =
   | ValidationConfigMap<T>
   | null;
 
+/**
+ * What `FormDirective` does with the DOM after a submit settles as invalid:
+ * - `'focus'`: scroll to and focus the first invalid control
+ * - `'scroll'`: scroll the first invalid control into view without moving focus
+ * - `'none'`: leave focus and scroll position untouched
+ */
+export type NgxInvalidSubmitBehavior = 'focus' | 'scroll' | 'none';
+
+/**
+ * When `FormDirective` checks the form value against `formShape`:
+ * - `'dev'` (default): in development mode only, logged to the console
+ * - `'always'`: in production too, reported through `(shapeMismatch)` only
+ * - `'off'`: never
+ */
+export type NgxShapeValidationMode = 'off' | 'dev' | 'always';
+
+/**
+ * Server-side messages for a single field path, together with the control value
+ * they were reported against. `captured` stays `false` until the control exists.
+ */
+type ServerErrorEntry = {
+  readonly messages: readonly string[];
+  readonly value: unknown;
+  readonly captured: boolean;
+};
+
 /**
  * Main form directive for ngx-vest-forms that bridges Angular template-driven forms with Vest.js validation.
  *
@@ -142,10 +213,18 @@ export class FormDirective<T extends Record<string, unknown>> {
   readonly ngForm = inject(NgForm, { self: true });
   private readonly elementRef = inject(ElementRef<HTMLFormElement>);
   private readonly destroyRef = inject(DestroyRef);
+  private readonly injector = inject(Injector);
   private readonly cdr = inject(ChangeDetectorRef);
   private readonly configDebounceTime = inject(
     NGX_VALIDATION_CONFIG_DEBOUNCE_TOKEN
   );
+  private readonly messageFormatter = inject(NGX_ERROR_MESSAGE_FORMATTER, {
+    optional: true,
+  });
+  private readonly tracer = inject(NGX_VEST_FORMS_TRACER, { optional: true });
+  private readonly diagnostics = inject(NGX_VEST_FORMS_DIAGNOSTICS_SINK);
+  private readonly firstInvalidDefaults = inject(NGX_VEST_FORMS_CONFIG)
+    .firstInvalid;
 
   /**
    * Public signal storing field warnings keyed by field path.
@@ -155,6 +234,49 @@ export class FormDirective<T extends Record<string, unknown>> {
    */
   readonly fieldWarnings = signal<Map<string, readonly string[]>>(new Map());
 
+  /**
+   * @internal
+   * Debug information for `ngx-vest-forms-devtools`: fired `validationConfig`
+   * triggers, suite run durations and shape mismatches. `null` in production builds.
+   */
+  readonly devtools: NgxDevtoolsRecorder | null =
+    typeof ngDevMode !== 'undefined' && ngDevMode
+      ? createDevtoolsRecorder()
+      : null;
+
+  /**
+   * Server-side errors registered through `setServerErrors()`, keyed by field path.
+   */
+  readonly #serverErrors = signal<ReadonlyMap<string, ServerErrorEntry>>(
+    new Map()
+  );
+
+  /**
+   * Server-side errors that are currently applied to the form, keyed by field path
+   * (or `ROOT_FORM`). Entries disappear once the related value changes or when
+   * `clearServerErrors()` / `resetForm()` is called.
+   *
+   * @publicApi
+   */
+  readonly serverErrors = computed<Record<string, readonly string[]>>(() => {
+    const result: Record<string, readonly string[]> = {};
+    for (const [path, entry] of this.#serverErrors()) {
+      result[path] = entry.messages;
+    }
+    return result;
+  });
+
+  /**
+   * Validation group of every field that was validated with one, keyed by field path.
+   */
+  readonly #fieldGroups = new Map<string, string>();
+
+  /**
+   * Guards against re-entrant reconciliation: applying server errors emits
+   * status events, which would otherwise trigger another reconciliation pass.
+   */
+  #reconcilingServerErrors = false;
+
   // Track last linked value to prevent unnecessary updates
   #lastLinkedValue: T | null = null;
   #lastSyncedFormValue: T | null = null;
@@ -225,10 +347,29 @@ export class FormDirective<T extends Record<string, unknown>> {
       // Tie to validation feedback instead of aggregate status so errors update
       // even when the root form remains INVALID -> INVALID.
       this.#validationFeedbackTick();
+      // Server errors for controls that are not rendered (yet) cannot live on
+      // control.errors, so surface them here to avoid losing them.
+      const unmatchedServerErrors = this.#getUnmatchedServerErrors();
+      const rawFieldErrors = getAllFormErrors(this.ngForm.form);
+      const fieldErrors = formatErrorsMap(
+        this.messageFormatter,
+        rawFieldErrors
+      );
       return {
-        valid: this.ngForm.form.valid,
-        errors: getAllFormErrors(this.ngForm.form),
+        valid:
+          this.ngForm.form.valid &&
+          Object.keys(unmatchedServerErrors).length === 0,
+        errors: {
+          ...formatErrorsMap(this.messageFormatter, unmatchedServerErrors),
+          ...fieldErrors,
+        },
         value: this.#formValueSignal(),
+        groups: this.#collectGroupStates(fieldErrors),
+        issues: collectValidationIssues(
+          this.messageFormatter,
+          { ...unmatchedServerErrors, ...rawFieldErrors },
+          this.#getActiveFieldWarnings()
+        ),
       };
     },
     {
@@ -241,7 +382,9 @@ export class FormDirective<T extends Record<string, unknown>> {
         return (
           a.valid === b.valid &&
           fastDeepEqual(a.errors, b.errors) &&
-          fastDeepEqual(a.value, b.value)
+          fastDeepEqual(a.value, b.value) &&
+          fastDeepEqual(a.groups, b.groups) &&
+          fastDeepEqual(a.issues, b.issues)
         );
       },
     }
@@ -270,6 +413,14 @@ export class FormDirective<T extends Record<string, unknown>> {
    */
   readonly formShape = input<DeepRequired<T> | null>(null);
 
+  /**
+   * When to check the form value against `formShape`. Use `'always'` together with
+   * `(shapeMismatch)` to report typos in rarely visited branches from production.
+   *
+   * @see {@link NgxShapeValidationMode}
+   */
+  readonly shapeValidation = input<NgxShapeValidationMode>('dev');
+
   /**
    * Updates the validation config which is a dynamic object that will be used to
    * trigger validations on the dependant fields
@@ -286,6 +437,96 @@ export class FormDirective<T extends Record<string, unknown>> {
   readonly validationConfig: InputSignal<NgxValidationConfig<T>> =
     input<NgxValidationConfig<T>>(null);
 
+  /**
+   * Active validation group (Vest `group()`), e.g. the current wizard step.
+   *
+   * Passed to the suite as third argument (`suite(model, field, group)`) for every
+   * field that is not inside an `ngxValidationGroup` container, so one suite and one
+   * form model can drive a multi-step flow. Changing it re-runs validation.
+   */
+  readonly validationGroup = input<string | null>(null);
+
+  /**
+   * Per-field validation behaviour (debounce, `updateOn`, skip-when-pristine),
+   * declared once next to the suite instead of per `ngModel`.
+   *
+   * @see {@link NgxFieldValidationPolicy}
+   */
+  readonly validationPolicy = input<NgxValidationPolicy<T>>(null);
+
+  /**
+   * Policies keyed by dotted field path.
+   */
+  readonly #policies = computed(() => {
+    const policies = new Map<string, NgxFieldValidationPolicy>();
+    for (const [path, policy] of Object.entries(
+      this.validationPolicy() ?? {}
+    )) {
+      if (policy) {
+        policies.set(parseFieldPath(path).join('.'), policy);
+      }
+    }
+    return policies;
+  });
+
+  /**
+   * Last Vest result per field, kept while a policy defers its validation.
+   */
+  readonly #lastVestResults = new Map<string, ValidationErrors | null>();
+
+  /**
+   * Controls whose validation a policy deferred, keyed by field path.
+   */
+  readonly #deferredFields = new Map<string, AbstractControl>();
+
+  /**
+   * Settles when field validation may run again, see {@link holdValidation}.
+   */
+  #validationHold: Promise<void> | null = null;
+
+  /**
+   * Fields that validate on their next validator call regardless of `updateOn`.
+   */
+  readonly #forcedFields = new Set<string>();
+
+  /**
+   * Vest results of fields with a `cache` policy, keyed by the values they depended on.
+   */
+  readonly #validationCache = createValidationCache();
+
+  /**
+   * What to do with the DOM when a submit settles as invalid.
+   * Defaults to `'none'` so apps with their own focus handling
+   * (for example `ngx-form-error-summary`) are not affected.
+   *
+   * @see {@link NgxInvalidSubmitBehavior}
+   */
+  readonly onInvalidSubmit = input<NgxInvalidSubmitBehavior>('none');
+
+  /**
+   * Options passed to `focusFirstInvalidControl()` / `scrollToFirstInvalidControl()`
+   * when `onInvalidSubmit` is `'focus'` or `'scroll'`.
+   */
+  readonly invalidSubmitOptions = input<NgxFirstInvalidOptions>({});
+
+  /**
+   * @internal
+   * Emits the root form status once per submit, after pending async
+   * validation (including `ROOT_FORM`) has settled.
+   */
+  readonly submitSettled$ = this.ngForm.ngSubmit.pipe(
+    switchMap(() => {
+      if (this.ngForm.form.status === 'PENDING') {
+        return this.ngForm.form.statusChanges.pipe(
+          filter((status) => status !== 'PENDING'),
+          take(1)
+        );
+      }
+
+      return of(this.ngForm.form.status);
+    })
+  );
+
   /**
    * Emits whenever validation feedback may have changed, even if the aggregate
    * root form status string stays the same.
@@ -296,18 +537,7 @@ export class FormDirective<T extends Record<string, unknown>> {
       map((v) => (v as StatusChangeEvent).status),
       filter((v) => v !== 'PENDING')
     ),
-    this.ngForm.ngSubmit.pipe(
-      switchMap(() => {
-        if (this.ngForm.form.status === 'PENDING') {
-          return this.ngForm.form.statusChanges.pipe(
-            filter((status) => status !== 'PENDING'),
-            take(1)
-          );
-        }
-
-        return of(this.ngForm.form.status);
-      })
-    )
+    this.submitSettled$
   );
 
   /**
@@ -371,7 +601,14 @@ export class FormDirective<T extends Record<string, unknown>> {
    */
   readonly errorsChange = outputFromObservable(
     this.validationFeedback$.pipe(
-      map(() => getAllFormErrors(this.ngForm.form)),
+      map(() =>
+        untracked(() =>
+          formatErrorsMap(
+            this.messageFormatter,
+            getAllFormErrors(this.ngForm.form)
+          )
+        )
+      ),
       takeUntilDestroyed(this.destroyRef)
     )
   );
@@ -413,6 +650,59 @@ export class FormDirective<T extends Record<string, unknown>> {
     )
   );
 
+  /**
+   * Triggered when a submit settles as valid, with the typed form value
+   * (including disabled fields).
+   *
+   * Waits for pending async validation, so handlers no longer need to check
+   * `formState().valid` themselves.
+   *
+   * Cleanup is handled automatically by the directive when it's destroyed.
+   *
+   * @example
+   * ```html
+   * <form ngxVestForm [suite]="suite" (validSubmit)="save($event)">
+   * ```
+   */
+  readonly validSubmit = outputFromObservable(
+    this.submitSettled$.pipe(
+      filter(() => untracked(this.formState).valid),
+      map(() => mergeValuesAndRawValues<T>(this.ngForm.form)),
+      takeUntilDestroyed(this.destroyRef)
+    )
+  );
+
+  /**
+   * Triggered when a submit settles as invalid, with the errors map of `formState()`
+   * (including `ROOT_FORM` and server errors).
+   *
+   * Cleanup is handled automatically by the directive when it's destroyed.
+   */
+  readonly invalidSubmit = outputFromObservable(
+    this.submitSettled$.pipe(
+      map(() => untracked(this.formState)),
+      filter((state) => !state.valid),
+      map((state) => state.errors),
+      takeUntilDestroyed(this.destroyRef)
+    )
+  );
+
+  /**
+   * Emits the shape mismatches of the form every time the set of mismatches
+   * changes and is not empty, also in production when `shapeValidation` is `'always'`.
+   *
+   * @example
+   * ```html
+   * <form
+   *   ngxVestForm
+   *   [formShape]="shape"
+   *   shapeValidation="always"
+   *   (shapeMismatch)="telemetry.report('form-shape', $event)"
+   * >
+   * ```
+   */
+  readonly shapeMismatch = output<NgxShapeMismatch[]>();
+
   /**
    * Track validation in progress to prevent circular triggering (Issue #19)
    */
@@ -423,18 +713,80 @@ export class FormDirective<T extends Record<string, unknown>> {
       this.fieldWarnings.set(new Map());
     });
 
+    /**
+     * Keep server errors attached to their controls: drop them once the related
+     * value changes, and re-apply them when a validation run overwrote control.errors.
+     */
+    this.ngForm.form.events
+      .pipe(
+        filter(
+          (event) =>
+            event instanceof ValueChangeEvent ||
+            event instanceof StatusChangeEvent
+        ),
+        filter(() => untracked(this.#serverErrors).size > 0),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe(() => this.#reconcileServerErrors());
+
     /**
      * Trigger shape validations if the form gets updated
      * This is how we can throw run-time errors
      */
-    if (isDevMode()) {
-      effect(() => {
-        const v = this.formValue();
-        if (v && this.formShape()) {
-          validateShape(v, this.formShape() as DeepRequired<T>);
+    let lastReport = '';
+    effect(() => {
+      const mode = this.shapeValidation();
+      if (mode === 'off' || (mode === 'dev' && !isDevMode())) {
+        return;
+      }
+      const v = this.formValue();
+      const shape = this.formShape();
+      // Registered controls, to report shape fields without an ngModel.
+      // Controls register without events, so re-check on status changes too.
+      this.#value();
+      const controls = Object.keys(this.ngForm.form.controls).length
+        ? this.ngForm.form.getRawValue()
+        : null;
+      if (v && shape) {
+        const mismatches = collectShapeMismatches(
+          v,
+          shape as DeepRequired<T>,
+          controls
+        );
+        // One grouped report per distinct set of mismatches, not per keystroke
+        const report = mismatches.map((mismatch) => mismatch.message).join();
+        if (report !== lastReport) {
+          lastReport = report;
+          if (isDevMode()) {
+            reportShapeMismatches(mismatches, this.diagnostics);
+          }
+          if (mismatches.length) {
+            this.shapeMismatch.emit(mismatches);
+          }
         }
-      });
-    }
+        this.devtools?.setShapeMismatches(mismatches);
+      }
+    });
+
+    /**
+     * Report validationConfig cycles and fields missing from the shape (dev mode)
+     */
+    let lastConfigReport = '';
+    effect(() => {
+      if (!isDevMode()) {
+        return;
+      }
+      const analysis = analyzeValidationConfig(
+        this.validationConfig() as Record<string, string[]> | null,
+        this.formShape() as Record<string, unknown> | null
+      );
+      const report = JSON.stringify([analysis.cycles, analysis.unknownFields]);
+      if (report !== lastConfigReport) {
+        lastConfigReport = report;
+        reportValidationConfigAnalysis(analysis, this.diagnostics);
+      }
+      this.devtools?.setConfigAnalysis(analysis);
+    });
 
     /**
      * Mark all the fields as touched when the form is submitted
@@ -444,6 +796,41 @@ export class FormDirective<T extends Record<string, unknown>> {
       .subscribe(() => {
         this.ngForm.form.markAllAsTouched();
         this.#blurTick.update((v) => v + 1);
+        // Before submitSettled$ reads the status, so deferred fields count
+        this.#validateDeferredFields(() => true);
+      });
+
+    /**
+     * Report settled submits to the tracer
+     */
+    if (this.tracer) {
+      this.submitSettled$
+        .pipe(takeUntilDestroyed(this.destroyRef))
+        .subscribe((status) =>
+          emitTraceEvent(this.tracer, {
+            type: 'submit',
+            valid: status === 'VALID',
+          })
+        );
+    }
+
+    /**
+     * Guide the user to the first invalid control when a submit settles as invalid.
+     * Runs after the next render so wrappers have applied their invalid state.
+     */
+    this.submitSettled$
+      .pipe(
+        filter(
+          () =>
+            this.onInvalidSubmit() !== 'none' &&
+            !untracked(this.formState).valid
+        ),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe(() => {
+        afterNextRender(() => this.#applyInvalidSubmitBehavior(), {
+          injector: this.injector,
+        });
       });
 
     /**
@@ -478,6 +865,10 @@ export class FormDirective<T extends Record<string, unknown>> {
         untracked(() => {
           this.#lastSyncedFormValue = formValue;
           this.#lastSyncedModelValue = formValue;
+          emitTraceEvent(this.tracer, {
+            type: 'sync',
+            decision: 'form-to-model',
+          });
         });
       } else if (modelChanged && !formChanged) {
         // Model was modified programmatically -> model wins
@@ -493,6 +884,10 @@ export class FormDirective<T extends Record<string, unknown>> {
           }
           this.#lastSyncedFormValue = modelValue;
           this.#lastSyncedModelValue = modelValue;
+          emitTraceEvent(this.tracer, {
+            type: 'sync',
+            decision: 'model-to-form',
+          });
         });
       } else if (formChanged && modelChanged) {
         // Both form and model changed simultaneously
@@ -505,6 +900,10 @@ export class FormDirective<T extends Record<string, unknown>> {
           untracked(() => {
             this.#lastSyncedFormValue = formValue;
             this.#lastSyncedModelValue = formValue;
+            emitTraceEvent(this.tracer, {
+              type: 'sync',
+              decision: 'converged',
+            });
           });
         } else {
           // Both changed to different values - this is a true conflict
@@ -512,12 +911,26 @@ export class FormDirective<T extends Record<string, unknown>> {
           // We intentionally do nothing here to avoid breaking the Angular event flow.
           // The form will continue with its current values, and validation will run normally.
           // The next change (either form or model) will trigger proper synchronization.
+          untracked(() =>
+            emitTraceEvent(this.tracer, { type: 'sync', decision: 'conflict' })
+          );
         }
       }
     });
 
     // Set up validation config reactively
     this.#setupValidationConfig();
+
+    /**
+     * Re-run validation when the active group changes, so the suite sees the new group.
+     */
+    toObservable(this.validationGroup)
+      .pipe(
+        skip(1),
+        distinctUntilChanged(),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe(() => this.#revalidateAllControls());
   }
 
   /**
@@ -588,7 +1001,11 @@ export class FormDirective<T extends Record<string, unknown>> {
       if (control) {
         control.updateValueAndValidity({ emitEvent: true });
       } else if (isDevMode()) {
-        logWarning(NGX_VEST_FORMS_ERRORS.CONTROL_NOT_FOUND, path);
+        reportDiagnostic(
+          this.diagnostics,
+          NGX_VEST_FORMS_ERRORS.CONTROL_NOT_FOUND,
+          [path]
+        );
       }
     } else {
       // Update all form controls validity which will trigger all form events
@@ -693,7 +1110,8 @@ export class FormDirective<T extends Record<string, unknown>> {
    *
    * Useful in custom submit flows where `markAllAsTouched()` is triggered externally
    * and the app then wants to guide keyboard and assistive-technology users to the
-   * first failing field.
+   * first failing field. Options not passed fall back to the `firstInvalid`
+   * defaults of `provideNgxVestForms`.
    *
    * @returns The focused element when a focusable target exists, otherwise the first
    *          matched invalid element. Returns `null` when no invalid element is found.
@@ -701,6 +1119,7 @@ export class FormDirective<T extends Record<string, unknown>> {
   focusFirstInvalidControl(
     options: NgxFirstInvalidOptions = {}
   ): HTMLElement | null {
+    const resolved = { ...this.firstInvalidDefaults, ...options };
     const {
       block = 'center',
       inline = 'nearest',
@@ -709,8 +1128,8 @@ export class FormDirective<T extends Record<string, unknown>> {
       openCollapsedParents = true,
       invalidSelector = DEFAULT_INVALID_SELECTOR,
       focusSelector = DEFAULT_FOCUS_SELECTOR,
-    } = options;
-    const behavior = resolveFirstInvalidScrollBehavior(options.behavior);
+    } = resolved;
+    const behavior = resolveFirstInvalidScrollBehavior(resolved.behavior);
 
     const root: HTMLFormElement = this.elementRef.nativeElement;
     const firstInvalid = resolveFirstInvalidElement(root, invalidSelector);
@@ -760,6 +1179,9 @@ export class FormDirective<T extends Record<string, unknown>> {
     // control.touched changes for the field that just blurred.
     queueMicrotask(() => {
       this.#blurTick.update((v) => v + 1);
+      this.#validateDeferredFields(
+        (control, policy) => policy?.updateOn === 'blur' && control.touched
+      );
     });
   }
 
@@ -815,6 +1237,9 @@ export class FormDirective<T extends Record<string, unknown>> {
    * @see {@link triggerFormValidation} for re-running validation without reset
    */
   resetForm(value?: T | null): void {
+    // Server errors belong to the previous submission; drop them before resetting
+    this.#serverErrors.set(new Map());
+
     // Reset Angular's form to clear all controls and mark as pristine/untouched
     this.ngForm.resetForm(value ?? undefined);
 
@@ -826,6 +1251,10 @@ export class FormDirective<T extends Record<string, unknown>> {
     this.#lastSyncedFormValue = null;
     this.#lastSyncedModelValue = null;
     this.#lastLinkedValue = null;
+    this.#lastVestResults.clear();
+    this.#deferredFields.clear();
+    this.#forcedFields.clear();
+    this.#validationCache.clear();
 
     // Force change detection to ensure DOM updates are reflected
     // Note: This is still needed even with signals because we're modifying NgForm
@@ -838,6 +1267,101 @@ export class FormDirective<T extends Record<string, unknown>> {
     // Now synchronous since detectChanges() has flushed DOM updates
     this.ngForm.form.updateValueAndValidity({ emitEvent: true });
     this.#blurTick.update((v) => v + 1);
+    emitTraceEvent(this.tracer, { type: 'reset', value: value ?? null });
+  }
+
+  /**
+   * Merges server-side errors (e.g. from a 422 response) into the form.
+   *
+   * Messages are appended to `control.errors.errors`, so they render through
+   * `ControlWrapperComponent` and appear in `formState().errors` like Vest errors.
+   * Use `ROOT_FORM` as key for form-level errors.
+   *
+   * Replaces any server errors set previously. A field's server errors are cleared
+   * automatically as soon as that field's value changes; `ROOT_FORM` errors are
+   * cleared when any value in the form changes. Keys without a matching control are
+   * reported in `formState().errors` and attached once the control is registered.
+   *
+   * @example
+   * ```typescript
+   * save(): void {
+   *   this.api.save(this.formValue()).subscribe({
+   *     error: (response: HttpErrorResponse) => {
+   *       if (response.status === 422) {
+   *         /// { email: ['Email is already taken'], rootForm: ['Quota exceeded'] }
+   *         this.vestForm().setServerErrors(response.error.errors);
+   *       }
+   *     },
+   *   });
+   * }
+   * ```
+   *
+   * @param errors - Error messages keyed by field path (dot/bracket notation) or `ROOT_FORM`.
+   *
+   * @see {@link clearServerErrors} to remove server errors manually
+   */
+  setServerErrors(errors: Record<string, readonly string[]>): void {
+    this.#removeServerErrorsFromControls(untracked(this.#serverErrors).keys());
+
+    const entries = new Map<string, ServerErrorEntry>();
+    for (const [path, messages] of Object.entries(errors)) {
+      if (!messages?.length) {
+        continue;
+      }
+      const control = this.#getServerErrorControl(path);
+      entries.set(path, {
+        messages: [...messages],
+        value: this.#getServerErrorValue(control),
+        captured: !!control,
+      });
+    }
+
+    this.#serverErrors.set(entries);
+    this.#reconcileServerErrors();
+  }
+
+  /**
+   * Removes server-side errors that were added through `setServerErrors()`.
+   *
+   * @param paths - Field paths (or `ROOT_FORM`) to clear. Clears all server errors when omitted.
+   */
+  clearServerErrors(paths?: readonly string[]): void {
+    const current = untracked(this.#serverErrors);
+    const toClear = paths ?? [...current.keys()];
+    if (!toClear.some((path) => current.has(path))) {
+      return;
+    }
+
+    this.#serverErrors.update((entries) => {
+      const next = new Map(entries);
+      for (const path of toClear) {
+        next.delete(path);
+      }
+      return next;
+    });
+    this.#removeServerErrorsFromControls(toClear);
+  }
+
+  /**
+   * Drops cached validation results of fields with a `cache` policy, so their
+   * next validation runs the suite again. Call it when the data behind a check
+   * changed, e.g. after registering the username that was just validated.
+   *
+   * @example
+   * ```typescript
+   * this.api.register(this.formValue()).subscribe(() => {
+   *   this.vestForm().clearValidationCache(['username']);
+   * });
+   * ```
+   *
+   * @param paths - Field paths (dot/bracket notation) to clear. Clears all fields when omitted.
+   *
+   * @see {@link NgxValidationCacheOptions}
+   */
+  clearValidationCache(paths?: readonly string[]): void {
+    this.#validationCache.clear(
+      paths?.map((path) => parseFieldPath(path).join('.'))
+    );
   }
 
   /**
@@ -849,16 +1373,61 @@ export class FormDirective<T extends Record<string, unknown>> {
    * - runs the Vest suite with debouncing,
    * - maps Vest errors/warnings into Angular `ValidationErrors | null`.
    *
+   * Each suite run receives an `AbortSignal` as fourth argument. It aborts when Angular
+   * drops the run (the value changed again or the field was revalidated) or when the
+   * form is destroyed; the results of an aborted run are ignored.
+   *
    * Warnings are stored in `fieldWarnings` to keep warnings non-blocking when no errors exist.
    */
   createAsyncValidator(
     field: string,
-    validationOptions: ValidationOptions
+    validationOptions: ValidationOptions,
+    group?: string
   ): AsyncValidatorFn {
     const suite = this.suite();
     if (!suite) return () => of(null);
 
-    return (control: AbstractControl) => {
+    const validator = (
+      control: AbstractControl
+    ): Observable<ValidationErrors | null> => {
+      const activeGroup = group ?? untracked(this.validationGroup) ?? undefined;
+      if (activeGroup) {
+        this.#fieldGroups.set(field, activeGroup);
+      } else {
+        this.#fieldGroups.delete(field);
+      }
+
+      const policy = this.#getFieldPolicy(field);
+      if (!this.#shouldRunSuite(field, control, policy)) {
+        this.#deferredFields.set(field, control);
+        return of(
+          this.#withServerErrors(
+            field,
+            control.value,
+            this.#lastVestResults.get(field) ?? null
+          )
+        );
+      }
+      this.#deferredFields.delete(field);
+
+      const cacheKey = policy?.cache
+        ? this.#getValidationCacheKey(
+            field,
+            control.value,
+            activeGroup,
+            policy.cache
+          )
+        : null;
+      const cached =
+        cacheKey === null
+          ? undefined
+          : this.#validationCache.get(field, cacheKey);
+      if (cached) {
+        this.#setFieldWarnings(field, cached.warnings);
+        this.#lastVestResults.set(field, cached.errors);
+        return of(this.#withServerErrors(field, control.value, cached.errors));
+      }
+
       const model = mergeValuesAndRawValues<T>(this.ngForm.form);
 
       // Targeted snapshot with candidate value injected at path
@@ -868,32 +1437,58 @@ export class FormDirective<T extends Record<string, unknown>> {
       setValueAtPath(snapshot as object, field, control.value);
 
       // Use timer() instead of ReplaySubject for proper debouncing
-      return timer(validationOptions.debounceTime ?? 0).pipe(
+      return timer(
+        policy?.debounceTime ?? validationOptions.debounceTime ?? 0
+      ).pipe(
         map(() => snapshot),
         switchMap(
           (snap) =>
             new Observable<ValidationErrors | null>((observer) => {
+              // A debounced run can start after the form is destroyed
+              if (this.destroyRef.destroyed) {
+                observer.complete();
+                return;
+              }
+              const abortController = new AbortController();
+              const removeDestroyListener = this.destroyRef.onDestroy(() =>
+                abortController.abort()
+              );
+              let settled = false;
               try {
                 // Cast to NgxVestSuite to accept string field parameter
                 // Both NgxVestSuite and NgxTypedVestSuite work with string at runtime
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                (suite as NgxVestSuite<T>)(snap, field).done((result: any) => {
+                const runSuite = suite as NgxVestSuite<T>;
+                const startedAt = performance.now();
+                emitTraceEvent(this.tracer, {
+                  type: 'suite-run-start',
+                  field,
+                  group: activeGroup,
+                });
+                runSuite(
+                  snap,
+                  field,
+                  activeGroup,
+                  abortController.signal
+                  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                ).done((result: any) => {
+                  // Superseded or destroyed: a newer run owns the field state
+                  if (abortController.signal.aborted) return;
+                  settled = true;
+                  const durationMs = performance.now() - startedAt;
+                  this.devtools?.recordSuiteRun(field, durationMs);
                   const errors = result.getErrors()[field];
                   const warnings = result.getWarnings()[field];
-
-                  // Store warnings in the fieldWarnings signal for access by control wrappers.
-                  // This is necessary because Angular marks a field as invalid when control.errors !== null.
-                  // By storing warnings separately, fields can remain valid while still displaying warnings.
-                  this.fieldWarnings.update((map) => {
-                    const newMap = new Map(map);
-                    if (warnings?.length) {
-                      newMap.set(field, warnings);
-                    } else {
-                      newMap.delete(field);
-                    }
-                    return newMap;
+                  emitTraceEvent(this.tracer, {
+                    type: 'suite-run-finish',
+                    field,
+                    group: activeGroup,
+                    durationMs,
+                    errors: errors ?? [],
+                    warnings: warnings ?? [],
                   });
 
+                  this.#setFieldWarnings(field, warnings ?? []);
+
                   // Build the validation result:
                   // - Errors exist → return { errors, warnings? } (field invalid, Angular shows ng-invalid)
                   // - Only warnings → return null (field valid, warnings accessed via fieldWarnings signal)
@@ -901,12 +1496,27 @@ export class FormDirective<T extends Record<string, unknown>> {
                   //
                   // When errors exist, we also include warnings in control.errors for backwards compatibility
                   // with code that reads warnings from control.errors.warnings.
-                  const out = errors?.length
+                  const vestOut = errors?.length
                     ? {
                         errors,
                         ...(warnings?.length && { warnings }),
                       }
                     : null;
+                  this.#lastVestResults.set(field, vestOut);
+                  if (cacheKey !== null && policy?.cache) {
+                    this.#validationCache.set(
+                      field,
+                      cacheKey,
+                      { errors: vestOut, warnings: warnings ?? [] },
+                      policy.cache.ttl
+                    );
+                  }
+
+                  const out = this.#withServerErrors(
+                    field,
+                    control.value,
+                    vestOut
+                  );
 
                   // CRITICAL: Ensure DOM validity classes update for OnPush components.
                   //
@@ -931,15 +1541,82 @@ export class FormDirective<T extends Record<string, unknown>> {
                   observer.complete();
                 });
               } catch {
+                settled = true;
                 observer.next({ vestInternalError: 'Validation failed' });
                 observer.complete();
               }
+
+              return () => {
+                removeDestroyListener();
+                if (!settled) {
+                  abortController.abort();
+                }
+              };
             })
         ),
         catchError(() => of({ vestInternalError: 'Validation failed' })),
         take(1)
       );
     };
+
+    return (control: AbstractControl) => {
+      const hold = this.#validationHold;
+      return hold
+        ? from(hold).pipe(switchMap(() => validator(control)))
+        : validator(control);
+    };
+  }
+
+  /**
+   * @internal
+   * Holds back field validation until `until` settles, so fields validate once
+   * against the state it applies (used by `ngxFormPersist` to restore drafts).
+   * Runs started meanwhile wait and read the form only afterwards.
+   */
+  holdValidation(until: Promise<unknown>): void {
+    const hold: Promise<void> = until
+      .catch(() => undefined)
+      .then(() => {
+        if (this.#validationHold === hold) {
+          this.#validationHold = null;
+        }
+      });
+    this.#validationHold = hold;
+  }
+
+  /**
+   * Re-runs the validators of every control, deepest first, so the root form
+   * ends up with fresh validity.
+   */
+  #revalidateAllControls(): void {
+    const revalidate = (control: AbstractControl): void => {
+      if (control instanceof FormGroup || control instanceof FormArray) {
+        for (const child of Object.values(control.controls)) {
+          revalidate(child);
+        }
+      }
+      control.updateValueAndValidity({ onlySelf: true, emitEvent: true });
+    };
+
+    revalidate(this.ngForm.form);
+    this.ngForm.form.updateValueAndValidity({ emitEvent: true });
+  }
+
+  /**
+   * Applies the configured `onInvalidSubmit` behavior after a failed submit.
+   */
+  #applyInvalidSubmitBehavior(): void {
+    const options = this.invalidSubmitOptions();
+    switch (this.onInvalidSubmit()) {
+      case 'focus':
+        this.focusFirstInvalidControl(options);
+        break;
+      case 'scroll':
+        this.scrollToFirstInvalidControl(options);
+        break;
+      case 'none':
+        break;
+    }
   }
 
   /**
@@ -1073,8 +1750,10 @@ export class FormDirective<T extends Record<string, unknown>> {
     const timeout$ = timer(2000).pipe(
       tap(() => {
         if (isDevMode()) {
-          console.warn(
-            '[ngx-vest-forms] validationConfig: timed out waiting for form to leave PENDING state (2s). Continuing dependent validation to avoid stalling.'
+          reportDiagnostic(
+            this.diagnostics,
+            NGX_VEST_FORMS_ERRORS.PENDING_TIMEOUT,
+            [2000]
           );
         }
       })
@@ -1119,8 +1798,10 @@ export class FormDirective<T extends Record<string, unknown>> {
           const unresolved = dependents.filter(
             (depField) => !form.get(depField)
           );
-          console.warn(
-            `[ngx-vest-forms] validationConfig: timed out waiting for dependent controls (2s): ${unresolved.join(', ')}. Continuing without waiting further.`
+          reportDiagnostic(
+            this.diagnostics,
+            NGX_VEST_FORMS_ERRORS.UNRESOLVED_DEPENDENTS,
+            [2000, unresolved]
           );
         }
       }),
@@ -1156,6 +1837,7 @@ export class FormDirective<T extends Record<string, unknown>> {
   ): void {
     // Mark trigger field as in-progress to prevent it from being re-triggered
     this.validationInProgress.add(triggerField);
+    const revalidated: string[] = [];
 
     for (const depField of dependents) {
       const dependentControl = form.get(depField);
@@ -1168,6 +1850,9 @@ export class FormDirective<T extends Record<string, unknown>> {
         // CRITICAL: Mark the dependent field as in-progress BEFORE calling updateValueAndValidity
         // This prevents the dependent field's valueChanges from triggering its own validationConfig
         this.validationInProgress.add(depField);
+        revalidated.push(depField);
+        // A trigger change counts as a reason to validate, whatever `updateOn` says
+        this.#forcedFields.add(depField);
 
         // NOTE: Touch propagation removed (PR #78)
         // Previously, we propagated touch state from trigger to dependent fields.
@@ -1207,6 +1892,13 @@ export class FormDirective<T extends Record<string, unknown>> {
         this.cdr.detectChanges();
       }
     }
+    this.devtools?.recordTriggerRun(triggerField, revalidated);
+    emitTraceEvent(this.tracer, {
+      type: 'dependency-trigger',
+      trigger: triggerField,
+      dependents,
+      revalidated,
+    });
 
     // Keep fields marked as in-progress for a short time to prevent immediate re-triggering
     // Use setTimeout to ensure async validators have time to complete before allowing new triggers
@@ -1218,6 +1910,277 @@ export class FormDirective<T extends Record<string, unknown>> {
     }, VALIDATION_IN_PROGRESS_TIMEOUT_MS);
   }
 
+  /**
+   * Resolves the validation policy of a field: an exact path match first, then
+   * the path without array indexes (`addresses.street` for `addresses.0.street`).
+   */
+  #getFieldPolicy(field: string): NgxFieldValidationPolicy | undefined {
+    const policies = untracked(this.#policies);
+    if (policies.size === 0) {
+      return undefined;
+    }
+    const segments = parseFieldPath(field);
+    return (
+      policies.get(segments.join('.')) ??
+      policies.get(
+        segments.filter((segment) => typeof segment === 'string').join('.')
+      )
+    );
+  }
+
+  /**
+   * Key of a cached result: the field value, the values of `dependsOn` and of the
+   * `validationConfig` triggers that revalidate the field, and the active group.
+   */
+  #getValidationCacheKey(
+    field: string,
+    value: unknown,
+    group: string | undefined,
+    cache: NgxValidationCacheOptions
+  ): string {
+    const triggers = Object.entries(
+      (untracked(this.validationConfig) ?? {}) as Record<
+        string,
+        readonly string[] | undefined
+      >
+    )
+      .filter(([, dependents]) => dependents?.includes(field))
+      .map(([trigger]) => trigger);
+    const dependencyValues = [...(cache.dependsOn ?? []), ...triggers].map(
+      (path) => this.ngForm.form.get(parseFieldPath(path).join('.'))?.value
+    );
+    return validationCacheKey(value, dependencyValues, group);
+  }
+
+  /**
+   * Stores warnings in the fieldWarnings signal for access by control wrappers.
+   * This is necessary because Angular marks a field as invalid when control.errors !== null.
+   * By storing warnings separately, fields can remain valid while still displaying warnings.
+   */
+  #setFieldWarnings(field: string, warnings: readonly string[]): void {
+    this.fieldWarnings.update((map) => {
+      const newMap = new Map(map);
+      if (warnings.length) {
+        newMap.set(field, warnings);
+      } else {
+        newMap.delete(field);
+      }
+      return newMap;
+    });
+  }
+
+  /**
+   * Whether a validator call should run the suite, or keep the last result
+   * because the field's policy defers validation.
+   */
+  #shouldRunSuite(
+    field: string,
+    control: AbstractControl,
+    policy: NgxFieldValidationPolicy | undefined
+  ): boolean {
+    const forced = this.#forcedFields.delete(field);
+    if (!policy || this.ngForm.submitted) {
+      return true;
+    }
+    if (policy.skipWhenPristine && control.pristine) {
+      return false;
+    }
+    return forced || (policy.updateOn ?? 'change') === 'change';
+  }
+
+  /**
+   * Re-runs the validators of deferred fields that match the predicate.
+   */
+  #validateDeferredFields(
+    predicate: (
+      control: AbstractControl,
+      policy: NgxFieldValidationPolicy | undefined
+    ) => boolean
+  ): void {
+    for (const [field, control] of [...this.#deferredFields]) {
+      if (this.ngForm.form.get(field) !== control) {
+        this.#deferredFields.delete(field);
+      } else if (predicate(control, this.#getFieldPolicy(field))) {
+        this.#forcedFields.add(field);
+        control.updateValueAndValidity();
+      }
+    }
+  }
+
+  /**
+   * Keeps server errors for a field while its value is unchanged.
+   * Reconciliation would re-apply them too, but only when a validation run emits events.
+   */
+  #withServerErrors(
+    field: string,
+    value: unknown,
+    errors: ValidationErrors | null
+  ): ValidationErrors | null {
+    const serverMessages = this.#getServerErrorsForValue(field, value);
+    return serverMessages.length
+      ? applyServerErrors(errors, serverMessages)
+      : errors;
+  }
+
+  /**
+   * Resolves the control that holds server errors for a path (`ROOT_FORM` is the root form).
+   */
+  #getServerErrorControl(path: string): AbstractControl | null {
+    return path === ROOT_FORM ? this.ngForm.form : this.ngForm.form.get(path);
+  }
+
+  #getServerErrorValue(control: AbstractControl | null): unknown {
+    if (!control) {
+      return undefined;
+    }
+    // Root-form errors relate to the whole model, including disabled fields
+    return structuredClone(
+      control === this.ngForm.form ? control.getRawValue() : control.value
+    );
+  }
+
+  #removeServerErrorsFromControls(paths: Iterable<string>): void {
+    // Suppress reconciliation while stripping, it would re-apply stale entries
+    const wasReconciling = this.#reconcilingServerErrors;
+    this.#reconcilingServerErrors = true;
+    try {
+      for (const path of paths) {
+        const control = this.#getServerErrorControl(path);
+        if (control && getServerErrorMessages(control.errors).length > 0) {
+          control.setErrors(removeServerErrors(control.errors));
+        }
+      }
+    } finally {
+      this.#reconcilingServerErrors = wasReconciling;
+    }
+  }
+
+  /**
+   * Synchronizes stored server errors with the form controls:
+   * - captures the reference value for controls that were registered late,
+   * - drops entries whose control value changed since the errors were reported,
+   * - re-applies messages that a validation run removed from `control.errors`.
+   */
+  #reconcileServerErrors(): void {
+    if (this.#reconcilingServerErrors) {
+      return;
+    }
+    this.#reconcilingServerErrors = true;
+
+    try {
+      const entries = untracked(this.#serverErrors);
+      const next = new Map(entries);
+      let changed = false;
+
+      for (const [path, entry] of entries) {
+        const control = this.#getServerErrorControl(path);
+        if (!control) {
+          continue;
+        }
+
+        if (!entry.captured) {
+          next.set(path, {
+            ...entry,
+            value: this.#getServerErrorValue(control),
+            captured: true,
+          });
+          changed = true;
+        } else if (
+          !fastDeepEqual(this.#getServerErrorValue(control), entry.value)
+        ) {
+          next.delete(path);
+          changed = true;
+          this.#removeServerErrorsFromControls([path]);
+          continue;
+        }
+
+        // Validation runs overwrite control.errors; their status event brings us back here.
+        if (
+          !fastDeepEqual(getServerErrorMessages(control.errors), entry.messages)
+        ) {
+          control.setErrors(applyServerErrors(control.errors, entry.messages));
+        }
+      }
+
+      if (changed) {
+        this.#serverErrors.set(next);
+      }
+    } finally {
+      this.#reconcilingServerErrors = false;
+    }
+  }
+
+  /**
+   * Server messages for a field, provided they were reported against `value`.
+   */
+  #getServerErrorsForValue(path: string, value: unknown): readonly string[] {
+    const entry = untracked(this.#serverErrors).get(path);
+    if (!entry?.captured || !fastDeepEqual(value, entry.value)) {
+      return [];
+    }
+    return entry.messages;
+  }
+
+  /**
+   * Server errors whose path has no registered control.
+   */
+  #getUnmatchedServerErrors(): Record<string, string[]> {
+    const result: Record<string, string[]> = {};
+    for (const [path, entry] of this.#serverErrors()) {
+      if (!this.#getServerErrorControl(path)) {
+        result[path] = [...entry.messages];
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Builds the per-group validity and errors for `formState().groups` from the
+   * fields registered in `#fieldGroups`. Fields that are no longer rendered are ignored.
+   */
+  #collectGroupStates(
+    errors: Record<string, string[]>
+  ): Record<string, NgxValidationGroupState> {
+    const groups: Record<string, NgxValidationGroupState> = {};
+
+    for (const [field, group] of this.#fieldGroups) {
+      const control = this.ngForm.form.get(field);
+      if (!control) {
+        continue;
+      }
+
+      const state = (groups[group] ??= { valid: true, errors: {} });
+      if (control.invalid || control.pending) {
+        state.valid = false;
+      }
+
+      const path = stringifyFieldPath(parseFieldPath(field));
+      for (const [errorPath, messages] of Object.entries(errors)) {
+        if (
+          errorPath === path ||
+          errorPath.startsWith(`${path}.`) ||
+          errorPath.startsWith(`${path}[`)
+        ) {
+          state.errors[errorPath] = messages;
+        }
+      }
+    }
+
+    return groups;
+  }
+
+  /**
+   * Warnings of fields whose control is still rendered and enabled, so stale
+   * `fieldWarnings` entries do not show up in `formState().issues`.
+   */
+  #getActiveFieldWarnings(): Map<string, readonly string[]> {
+    return new Map(
+      [...this.fieldWarnings()].filter(
+        ([field]) => this.ngForm.form.get(field)?.enabled
+      )
+    );
+  }
+
   /**
    * Collects field paths of all touched (or submitted) leaf controls
    * by walking the form control tree.
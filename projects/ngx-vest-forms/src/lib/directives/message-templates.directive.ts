@@ -0,0 +1,83 @@
+import { Directive, inject, TemplateRef } from '@angular/core';
+
+/**
+ * Context of `ngxErrorTemplate` and `ngxWarningTemplate`.
+ */
+export type NgxMessageTemplateContext = {
+  /** The visible messages, also available as `let-errors` / `let-warnings` */
+  $implicit: readonly string[];
+};
+
+/**
+ * Replaces how `ngx-control-wrapper` renders errors. The wrapper keeps its
+ * live region, ids, `aria-describedby` and `aria-invalid` wiring; the template
+ * only renders the messages inside it, and only while errors are shown.
+ *
+ * @example
+ * ```html
+ * <ngx-control-wrapper>
+ *   <input name="email" [ngModel]="formValue().email" />
+ *   <ng-template ngxErrorTemplate let-errors>
+ *     <ds-inline-message tone="critical" [messages]="errors" />
+ *   </ng-template>
+ * </ngx-control-wrapper>
+ * ```
+ */
+@Directive({
+  selector: 'ng-template[ngxErrorTemplate]',
+})
+export class ErrorTemplateDirective {
+  readonly templateRef =
+    inject<TemplateRef<NgxMessageTemplateContext>>(TemplateRef);
+
+  static ngTemplateContextGuard(
+    _dir: ErrorTemplateDirective,
+    _ctx: unknown
+  ): _ctx is NgxMessageTemplateContext {
+    return true;
+  }
+}
+
+/**
+ * Replaces how `ngx-control-wrapper` renders warnings, like
+ * {@link ErrorTemplateDirective} does for errors.
+ *
+ * @example
+ * ```html
+ * <ng-template ngxWarningTemplate let-warnings>
+ *   <ds-inline-message tone="caution" [messages]="warnings" />
+ * </ng-template>
+ * ```
+ */
+@Directive({
+  selector: 'ng-template[ngxWarningTemplate]',
+})
+export class WarningTemplateDirective {
+  readonly templateRef =
+    inject<TemplateRef<NgxMessageTemplateContext>>(TemplateRef);
+
+  static ngTemplateContextGuard(
+    _dir: WarningTemplateDirective,
+    _ctx: unknown
+  ): _ctx is NgxMessageTemplateContext {
+    return true;
+  }
+}
+
+/**
+ * Replaces the spinner and "Validating…" text of `ngx-control-wrapper`. It is
+ * rendered after the same debounce delay, inside the wrapper's pending region.
+ *
+ * @example
+ * ```html
+ * <ng-template ngxPendingTemplate>
+ *   <ds-spinner size="small" /> Checking availability…
+ * </ng-template>
+ * ```
+ */
+@Directive({
+  selector: 'ng-template[ngxPendingTemplate]',
+})
+export class PendingTemplateDirective {
+  readonly templateRef = inject<TemplateRef<unknown>>(TemplateRef);
+}
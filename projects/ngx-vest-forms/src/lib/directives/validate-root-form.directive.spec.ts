@@ -4,9 +4,10 @@ import { NgForm } from '@angular/forms';
 import { render, screen, waitFor } from '@testing-library/angular';
 import userEvent from '@testing-library/user-event';
 import { enforce, only, staticSuite, test } from 'vest';
-import { describe, expect, it } from 'vitest';
+import { describe, expect, it, vi } from 'vitest';
 import { ROOT_FORM } from '../constants';
 import { NgxVestForms } from '../exports';
+import { provideNgxVestForms } from '../tokens/config.token';
 import { getAllFormErrors } from '../utils/form-utils';
 
 /**
@@ -694,4 +695,51 @@ describe('ValidateRootFormDirective', () => {
       );
     });
   });
+
+  describe('destroy', () => {
+    it('should skip a debounced run that fires after the directive is destroyed', async () => {
+      const runs: string[] = [];
+      const diagnostics = vi.fn();
+
+      @Component({
+        imports: [NgxVestForms],
+        template: `
+          <form
+            ngxVestForm
+            ngxValidateRootForm
+            [ngxValidateRootFormMode]="'live'"
+            [validationOptions]="{ debounceTime: 50 }"
+            [suite]="suite"
+            [formValue]="model()"
+          >
+            <input name="password" [ngModel]="model().password" />
+          </form>
+        `,
+      })
+      class TestComponent {
+        model = signal<Record<string, unknown>>({ password: 'secret' });
+        suite = staticSuite(
+          (_data: Record<string, unknown> = {}, field?: string) => {
+            only(field);
+            runs.push(field ?? '');
+          }
+        );
+        @ViewChild(NgForm) ngForm!: NgForm;
+      }
+
+      const { fixture } = await render(TestComponent, {
+        providers: [provideNgxVestForms({ diagnostics })],
+      });
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      const rootRuns = runs.filter((field) => field === ROOT_FORM).length;
+      expect(rootRuns).toBeGreaterThan(0);
+
+      fixture.componentInstance.ngForm.form.updateValueAndValidity();
+      fixture.destroy();
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(runs.filter((field) => field === ROOT_FORM).length).toBe(rootRuns);
+      expect(diagnostics).not.toHaveBeenCalled();
+    });
+  });
 });
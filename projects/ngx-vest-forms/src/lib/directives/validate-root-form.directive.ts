@@ -30,6 +30,14 @@ import {
   timer,
 } from 'rxjs';
 import { ROOT_FORM } from '../constants';
+import {
+  NGX_VEST_FORMS_ERRORS,
+  reportDiagnostic,
+} from '../errors/error-catalog';
+import { NGX_VEST_FORMS_CONFIG } from '../tokens/config.token';
+import { NGX_VEST_FORMS_DIAGNOSTICS_SINK } from '../tokens/diagnostics-sink.token';
+import { NGX_VEST_FORMS_TRACER } from '../tokens/tracer.token';
+import { emitTraceEvent } from '../utils/tracing.utils';
 import { NgxTypedVestSuite, NgxVestSuite } from '../utils/validation-suite';
 import { ValidationOptions } from './validation-options';
 
@@ -120,8 +128,12 @@ export class ValidateRootFormDirective<T>
 {
   private readonly injector = inject(Injector);
   private readonly destroyRef = inject(DestroyRef);
+  private readonly tracer = inject(NGX_VEST_FORMS_TRACER, { optional: true });
+  private readonly diagnostics = inject(NGX_VEST_FORMS_DIAGNOSTICS_SINK);
   private readonly lastControl = signal<NgForm | null>(null);
-  validationOptions = input<ValidationOptions>({ debounceTime: 0 });
+  validationOptions = input<ValidationOptions>(
+    inject(NGX_VEST_FORMS_CONFIG).validationOptions ?? { debounceTime: 0 }
+  );
   private readonly hasSubmitted = signal(false);
   private readonly hasSubmitted$: Observable<boolean>;
   private readonly formValue$: Observable<T | null>;
@@ -195,9 +207,10 @@ export class ValidateRootFormDirective<T>
     this.lastControl.set(ngForm);
 
     if (!ngForm) {
-      console.error(
-        '[ValidateRootFormDirective] NgForm not found. Ensure the directive is used on a <form> element with the scVestForm directive. ' +
-          'Common setup mistakes: (1) Missing scVestForm directive, (2) Directive on non-form element, (3) NgForm not imported in module/component.'
+      reportDiagnostic(
+        this.diagnostics,
+        NGX_VEST_FORMS_ERRORS.MISSING_NG_FORM,
+        []
       );
       return;
     }
@@ -279,9 +292,21 @@ export class ValidateRootFormDirective<T>
       return source$.pipe(
         switchMap((model) => {
           return new Observable((observer) => {
+            // A debounced run can start after the directive is destroyed
+            if (this.destroyRef.destroyed) {
+              observer.complete();
+              return;
+            }
+            // Aborted when the run is dropped or the directive is destroyed
+            const abortController = new AbortController();
+            const removeDestroyListener = this.destroyRef.onDestroy(() =>
+              abortController.abort()
+            );
+            let settled = false;
             try {
               const suite = this.suite();
               if (!suite) {
+                removeDestroyListener();
                 observer.next(null);
                 observer.complete();
                 return;
@@ -293,7 +318,9 @@ export class ValidateRootFormDirective<T>
               // ROOT_FORM field ('rootForm'), which is valid for both variants.
               const runSuite = suite as unknown as (
                 model: T,
-                field?: unknown
+                field?: unknown,
+                group?: string,
+                signal?: AbortSignal
               ) => {
                 done: (
                   cb: (result: {
@@ -302,24 +329,49 @@ export class ValidateRootFormDirective<T>
                 ) => void;
               };
 
-              runSuite(model, field).done((result) => {
-                const errors = result.getErrors()[field];
-                // Return { errors: string[] } format expected by getAllFormErrors()
-                observer.next(errors ? { errors } : null);
-                observer.complete();
-              });
+              const startedAt = performance.now();
+              runSuite(model, field, undefined, abortController.signal).done(
+                (result) => {
+                  if (abortController.signal.aborted) return;
+                  settled = true;
+                  const errors = result.getErrors()[field];
+                  emitTraceEvent(this.tracer, {
+                    type: 'root-form-validation',
+                    durationMs: performance.now() - startedAt,
+                    errors: errors ?? [],
+                  });
+                  // Return { errors: string[] } format expected by getAllFormErrors()
+                  observer.next(errors ? { errors } : null);
+                  observer.complete();
+                }
+              );
             } catch (err) {
-              console.error(
-                '[validate-root-form] Validation suite error:',
+              reportDiagnostic(
+                this.diagnostics,
+                NGX_VEST_FORMS_ERRORS.ROOT_FORM_SUITE_ERROR,
+                [],
                 err
               );
+              settled = true;
               observer.next(null);
               observer.complete();
             }
+
+            return () => {
+              removeDestroyListener();
+              if (!settled) {
+                abortController.abort();
+              }
+            };
           }) as Observable<ValidationErrors | null>;
         }),
         catchError((err) => {
-          console.error('[validate-root-form] Observable error:', err);
+          reportDiagnostic(
+            this.diagnostics,
+            NGX_VEST_FORMS_ERRORS.ROOT_FORM_SUITE_ERROR,
+            [],
+            err
+          );
           return of(null);
         }),
         take(1),
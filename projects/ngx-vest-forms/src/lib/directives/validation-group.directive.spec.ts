@@ -0,0 +1,119 @@
+import { Component, signal, viewChild } from '@angular/core';
+import { render } from '@testing-library/angular';
+import { enforce, group, only, staticSuite, test as vestTest } from 'vest';
+import { describe, expect, it } from 'vitest';
+import { NgxVestForms } from '../exports';
+import { FormDirective } from './form.directive';
+
+type WizardModel = {
+  firstName?: string;
+  street?: string;
+  newsletter?: boolean;
+};
+
+const receivedGroups: Array<[string | undefined, string | undefined]> = [];
+
+const wizardSuite = staticSuite(
+  (model: WizardModel, field?: string, activeGroup?: string) => {
+    only(field);
+    receivedGroups.push([field, activeGroup]);
+
+    group('personal', () => {
+      vestTest('firstName', 'First name is required', () => {
+        enforce(model.firstName).isNotBlank();
+      });
+    });
+    group('address', () => {
+      vestTest('street', 'Street is required', () => {
+        enforce(model.street).isNotBlank();
+      });
+    });
+  }
+);
+
+@Component({
+  imports: [NgxVestForms],
+  template: `
+    <form
+      ngxVestForm
+      [suite]="suite"
+      [formValue]="formValue()"
+      [validationGroup]="activeStep()"
+      (formValueChange)="formValue.set($event)"
+      #vest="ngxVestForm"
+    >
+      <fieldset ngxValidationGroup="personal">
+        <input name="firstName" [ngModel]="formValue().firstName" />
+      </fieldset>
+      <fieldset ngxValidationGroup="address">
+        <input name="street" [ngModel]="formValue().street" />
+      </fieldset>
+      <input
+        type="checkbox"
+        name="newsletter"
+        [ngModel]="formValue().newsletter"
+      />
+    </form>
+  `,
+})
+class TestWizardHost {
+  formValue = signal<WizardModel>({ firstName: 'Jane' });
+  activeStep = signal<string | null>(null);
+  suite = wizardSuite;
+  readonly vestForm =
+    viewChild.required<FormDirective<Record<string, unknown>>>('vest');
+}
+
+async function renderHost() {
+  receivedGroups.length = 0;
+  const { fixture } = await render(TestWizardHost);
+  fixture.detectChanges();
+  await fixture.whenStable();
+  return { fixture, host: fixture.componentInstance };
+}
+
+describe('ValidationGroupDirective', () => {
+  it('should pass the container group to the suite', async () => {
+    await renderHost();
+
+    await expect
+      .poll(() => receivedGroups)
+      .toEqual(
+        expect.arrayContaining([
+          ['firstName', 'personal'],
+          ['street', 'address'],
+          ['newsletter', undefined],
+        ])
+      );
+  });
+
+  it('should report validity and errors per group in formState()', async () => {
+    const { host } = await renderHost();
+
+    await expect
+      .poll(() => host.vestForm().formState().groups)
+      .toEqual({
+        personal: { valid: true, errors: {} },
+        address: {
+          valid: false,
+          errors: { street: ['Street is required'] },
+        },
+      });
+  });
+
+  it('should pass the form validationGroup to fields outside a container', async () => {
+    const { fixture, host } = await renderHost();
+
+    host.activeStep.set('preferences');
+    fixture.detectChanges();
+    await fixture.whenStable();
+
+    await expect
+      .poll(() => receivedGroups)
+      .toContainEqual(['newsletter', 'preferences']);
+    expect(receivedGroups).not.toContainEqual(['firstName', 'preferences']);
+    await expect
+      .poll(() => host.vestForm().formState().groups?.['preferences'])
+      .toEqual({ valid: true, errors: {} });
+  });
+});
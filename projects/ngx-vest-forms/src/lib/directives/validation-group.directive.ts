@@ -0,0 +1,33 @@
+import { Directive, input } from '@angular/core';
+
+/**
+ * Assigns every `ngModel`/`ngModelGroup` inside the host element to a Vest group.
+ *
+ * The group name is passed to the suite as third argument (`suite(model, field, group)`)
+ * and the fields show up under `formState().groups[name]`, so one form and one
+ * suite can drive a multi-step flow.
+ * The nearest container wins; controls outside any container fall back to the
+ * form's `validationGroup` input.
+ *
+ * @example
+ * ```html
+ * <form ngxVestForm [suite]="suite" [(formValue)]="formValue">
+ *   <fieldset ngxValidationGroup="personal">
+ *     <input name="firstName" [ngModel]="formValue().firstName" />
+ *   </fieldset>
+ *   <fieldset ngxValidationGroup="address">
+ *     <input name="street" [ngModel]="formValue().street" />
+ *   </fieldset>
+ * </form>
+ * ```
+ */
+@Directive({
+  selector: '[ngxValidationGroup]',
+  exportAs: 'ngxValidationGroup',
+})
+export class ValidationGroupDirective {
+  /**
+   * Name of the Vest group the contained fields belong to.
+   */
+  readonly ngxValidationGroup = input.required<string>();
+}
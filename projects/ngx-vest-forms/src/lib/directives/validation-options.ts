@@ -1,3 +1,5 @@
+import type { FieldPath } from '../utils/field-path-types';
+
 /**
  * Validation Options
  */
@@ -7,3 +9,70 @@ export type ValidationOptions = {
    */
   debounceTime: number;
 };
+
+/**
+ * When a field's suite run happens:
+ * - `'change'` (default): on every value change
+ * - `'blur'`: when the field loses focus after a change
+ * - `'submit'`: only when the form is submitted
+ *
+ * After a submit every field validates on change. Unlike `ngModelOptions.updateOn`,
+ * the model still updates on every keystroke; only validation is deferred.
+ */
+export type NgxValidationUpdateOn = 'change' | 'blur' | 'submit';
+
+/**
+ * Caches a field's Vest results by value, e.g. for uniqueness checks that hit an API.
+ *
+ * A validator call whose field value, `dependsOn` values and validation group match
+ * a cached run reuses that result instead of running the suite. The triggers that
+ * list the field as dependent in `validationConfig` are always part of the key.
+ */
+export type NgxValidationCacheOptions = {
+  /** How long (in milliseconds) a result stays valid */
+  ttl: number;
+  /** Other field paths whose values the result depends on */
+  dependsOn?: readonly string[];
+};
+
+/**
+ * Validation behaviour of a single field in `[validationPolicy]`.
+ */
+export type NgxFieldValidationPolicy = {
+  /** Time (in milliseconds) to wait after the last change, overrides `validationOptions` */
+  debounceTime?: number;
+  /** When the suite runs for the field. Defaults to `'change'`. */
+  updateOn?: NgxValidationUpdateOn;
+  /** Skip validation while the field is pristine (until the first change or submit) */
+  skipWhenPristine?: boolean;
+  /** Reuse results for values validated before, see {@link NgxValidationCacheOptions} */
+  cache?: NgxValidationCacheOptions;
+};
+
+/**
+ * Type-safe per-field validation policy, keyed by field path.
+ *
+ * Paths of array items may omit the index (`addresses.street`) to apply to every item;
+ * a path with an index (`addresses.0.street`) wins over it.
+ *
+ * @example
+ * ```typescript
+ * const policy: NgxValidationPolicyMap<SignupModel> = {
+ *   email: { debounceTime: 300 },
+ *   password: { updateOn: 'blur' },
+ *   'address.zipCode': { skipWhenPristine: true },
+ *   username: { cache: { ttl: 60_000 } },
+ * };
+ * ```
+ */
+export type NgxValidationPolicyMap<T> = Partial<
+  Record<FieldPath<T>, NgxFieldValidationPolicy>
+>;
+
+/**
+ * Accepts both the typed and untyped policy maps, like `NgxValidationConfig`.
+ */
+export type NgxValidationPolicy<T = unknown> =
+  | Record<string, NgxFieldValidationPolicy>
+  | NgxValidationPolicyMap<T>
+  | null;
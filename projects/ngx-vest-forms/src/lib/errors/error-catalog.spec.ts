@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  consoleDiagnosticsSink,
+  createDiagnostic,
+  NGX_VEST_FORMS_ERRORS,
+  NgxDiagnostic,
+  reportDiagnostic,
+} from './error-catalog';
+
+describe('error-catalog', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should give every entry a unique code and a docs anchor', () => {
+    const entries = Object.values(NGX_VEST_FORMS_ERRORS);
+    const codes = entries.map((entry) => entry.code);
+
+    expect(new Set(codes).size).toBe(codes.length);
+    for (const entry of entries) {
+      expect(entry.code).toMatch(/^NGX-\d{3}$/);
+      expect(entry.hint).not.toBe('');
+      expect(entry.docsUrl).toMatch(
+        new RegExp(`/docs/DIAGNOSTICS\\.md#${entry.code.toLowerCase()}$`)
+      );
+    }
+  });
+
+  it('should not append the shape hint to unrelated codes', () => {
+    const diagnostic = createDiagnostic(
+      NGX_VEST_FORMS_ERRORS.CONTROL_NOT_FOUND,
+      ['email']
+    );
+
+    expect(diagnostic.message).not.toContain('[formShape]');
+    expect(diagnostic.hint).not.toContain('[formShape]');
+  });
+
+  it('should log on the console method matching the severity', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const cause = new Error('boom');
+
+    reportDiagnostic(
+      null,
+      NGX_VEST_FORMS_ERRORS.ROOT_FORM_SUITE_ERROR,
+      [],
+      cause
+    );
+    reportDiagnostic(null, NGX_VEST_FORMS_ERRORS.CONTROL_NOT_FOUND, ['email']);
+
+    expect(error).toHaveBeenCalledWith(
+      expect.stringMatching(/^\[ngx-vest-forms\] \[NGX-011\] .*\nSee https:/s),
+      cause
+    );
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining(
+        "[NGX-003] Control not found: Could not find form control at path 'email'."
+      )
+    );
+  });
+
+  it('should send diagnostics to a custom sink instead of the console', () => {
+    const warn = vi.spyOn(console, 'warn');
+    const diagnostics: NgxDiagnostic[] = [];
+
+    reportDiagnostic(
+      (diagnostic) => diagnostics.push(diagnostic),
+      NGX_VEST_FORMS_ERRORS.UNRESOLVED_DEPENDENTS,
+      [2000, ['address.zip']]
+    );
+
+    expect(diagnostics).toEqual([
+      {
+        code: 'NGX-013',
+        severity: 'warning',
+        message: expect.stringContaining('address.zip'),
+        hint: NGX_VEST_FORMS_ERRORS.UNRESOLVED_DEPENDENTS.hint,
+        docsUrl: NGX_VEST_FORMS_ERRORS.UNRESOLVED_DEPENDENTS.docsUrl,
+      },
+    ]);
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('should keep console logging available to custom sinks', () => {
+    const info = vi.spyOn(console, 'info').mockImplementation(() => {});
+
+    consoleDiagnosticsSink({
+      code: 'NGX-999',
+      severity: 'info',
+      message: 'Custom note',
+      hint: 'Nothing to do',
+      docsUrl: 'https://example.com',
+    });
+
+    expect(info).toHaveBeenCalledWith(
+      expect.stringContaining('[NGX-999] Custom note')
+    );
+  });
+});
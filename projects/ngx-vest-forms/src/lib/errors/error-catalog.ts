@@ -1,26 +1,261 @@
+/**
+ * How serious a diagnostic is:
+ * - `'error'`: the feature does not work, e.g. validation is skipped
+ * - `'warning'`: likely a mistake, e.g. a typo in a `name` attribute
+ * - `'info'`: worth knowing, nothing to fix
+ */
+export type NgxDiagnosticSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * An entry of {@link NGX_VEST_FORMS_ERRORS}.
+ */
+export type NgxDiagnosticDefinition<A extends unknown[] = never[]> = {
+  readonly code: string;
+  readonly severity: NgxDiagnosticSeverity;
+  readonly message: (...args: A) => string;
+  /** What to check to fix it */
+  readonly hint: string;
+  readonly docsUrl: string;
+};
+
+/**
+ * A diagnostic reported to `NGX_VEST_FORMS_DIAGNOSTICS_SINK`.
+ */
+export type NgxDiagnostic = {
+  readonly code: string;
+  readonly severity: NgxDiagnosticSeverity;
+  readonly message: string;
+  readonly hint: string;
+  readonly docsUrl: string;
+  /** The error that caused it, e.g. the exception thrown by a suite */
+  readonly cause?: unknown;
+};
+
+/**
+ * Receives the diagnostics of the library, see `NGX_VEST_FORMS_DIAGNOSTICS_SINK`.
+ */
+export type NgxDiagnosticsSink = (diagnostic: NgxDiagnostic) => void;
+
+const DOCS_URL =
+  'https://github.com/ngx-vest-forms/ngx-vest-forms/blob/master/docs/DIAGNOSTICS.md';
+
+function define<A extends unknown[]>(
+  code: string,
+  severity: NgxDiagnosticSeverity,
+  message: (...args: A) => string,
+  hint: string
+): NgxDiagnosticDefinition<A> {
+  return {
+    code,
+    severity,
+    message,
+    hint,
+    docsUrl: `${DOCS_URL}#${code.toLowerCase()}`,
+  };
+}
+
 export const NGX_VEST_FORMS_ERRORS = {
-  EXTRA_PROPERTY: {
-    code: 'NGX-001',
-    message: (path: string) =>
+  EXTRA_PROPERTY: define(
+    'NGX-001',
+    'warning',
+    (path: string) =>
       `Shape mismatch: Property '${path}' is present in the form value but not defined in the form shape.`,
-  },
-  TYPE_MISMATCH: {
-    code: 'NGX-002',
-    message: (path: string, expected: string, actual: string) =>
+    'Check the name and ngModelGroup attributes for typos, and add the property to your [formShape] if it is intended.'
+  ),
+  TYPE_MISMATCH: define(
+    'NGX-002',
+    'warning',
+    (path: string, expected: string, actual: string) =>
       `Type mismatch at '${path}': Expected '${expected}' but got '${actual}'.`,
-  },
-  CONTROL_NOT_FOUND: {
-    code: 'NGX-003',
-    message: (path: string) =>
-      `Control not found: Could not find form control at path '${path}'. Check your [ngModel] name attributes.`,
-  },
+    'Check the initial [formValue] and the value your control writes, e.g. a number input bound to a string.'
+  ),
+  CONTROL_NOT_FOUND: define(
+    'NGX-003',
+    'warning',
+    (path: string) =>
+      `Control not found: Could not find form control at path '${path}'.`,
+    'Check your [ngModel] name attributes and that the control is rendered when validation is triggered.'
+  ),
+  ASYNC_SCHEMA: define(
+    'NGX-004',
+    'error',
+    (vendor: string) =>
+      `Async schema: The ${vendor} schema passed to createStandardSchemaSuite validated asynchronously.`,
+    'Move async rules (e.g. uniqueness checks) into hand-written Vest tests.'
+  ),
+  MISSING_JSON_SCHEMA: define(
+    'NGX-005',
+    'error',
+    (vendor: string) =>
+      `Missing JSON Schema converter: The ${vendor} schema does not implement Standard JSON Schema ('~standard.jsonSchema'), so no form shape or initial value can be derived.`,
+    'Upgrade the schema library or write the shape by hand.'
+  ),
+  MISSING_CONTROL: define(
+    'NGX-006',
+    'warning',
+    (path: string) =>
+      `Missing control: Property '${path}' is defined in the form shape but no control is registered for it.`,
+    'Check your [ngModel] name and ngModelGroup attributes.'
+  ),
+  ARRAY_ITEM_DRIFT: define(
+    'NGX-007',
+    'warning',
+    (path: string, firstPath: string) =>
+      `Array item drift: '${path}' does not have the same structure as '${firstPath}'.`,
+    'Check the name attributes inside the repeated template, or add an example item to your [formShape].'
+  ),
+  MISSING_FORM_CONTEXT: define(
+    'NGX-008',
+    'warning',
+    (source: string) =>
+      `${source}: No FormDirective context found. Validation skipped (fail-open).`,
+    'Put the control inside a <form ngxVestForm>, or import NgxVestForms in the component that renders it.'
+  ),
+  UNRESOLVED_CONTROL_PATH: define(
+    'NGX-009',
+    'warning',
+    (source: string) =>
+      `${source}: Could not resolve control path. Validation skipped (fail-open).`,
+    'Ensure the control has a valid name/path and is registered in the form tree.'
+  ),
+  MISSING_NG_FORM: define(
+    'NGX-010',
+    'error',
+    () =>
+      'ValidateRootFormDirective: NgForm not found. Root form validation is disabled.',
+    'Use the directive on a <form> element with the ngxVestForm directive, and import NgxVestForms (or FormsModule) in the component.'
+  ),
+  ROOT_FORM_SUITE_ERROR: define(
+    'NGX-011',
+    'error',
+    () =>
+      'ValidateRootFormDirective: Root form validation failed with an error and was skipped.',
+    'Check the error passed as cause. Suites must not throw for incomplete models.'
+  ),
+  PENDING_TIMEOUT: define(
+    'NGX-012',
+    'warning',
+    (timeoutMs: number) =>
+      `validationConfig: Timed out waiting for the form to leave PENDING state (${timeoutMs}ms). Continuing dependent validation to avoid stalling.`,
+    'Check for async tests that never settle, or pass the suite signal to your requests so they can be cancelled.'
+  ),
+  UNRESOLVED_DEPENDENTS: define(
+    'NGX-013',
+    'warning',
+    (timeoutMs: number, fields: readonly string[]) =>
+      `validationConfig: Timed out waiting for dependent controls (${timeoutMs}ms): ${fields.join(', ')}. Continuing without waiting further.`,
+    'Check the field paths in [validationConfig] against your name attributes; dependents behind @if must be rendered when their trigger changes.'
+  ),
+  UNKNOWN_CONFIG_TRIGGER: define(
+    'NGX-014',
+    'warning',
+    (trigger: string) =>
+      `attachVestSuite: validationConfig trigger '${trigger}' is not part of the form.`,
+    'Check the field paths in validationConfig against the controls of your FormGroup.'
+  ),
+  STORAGE_FAILED: define(
+    'NGX-015',
+    'warning',
+    () => 'ngxFormPersist: Storage operation failed.',
+    'Check the error passed as cause, e.g. a full quota, private browsing or corrupt stored JSON.'
+  ),
+  UPDATE_ON_CONFLICT: define(
+    'NGX-016',
+    'warning',
+    () =>
+      'Potential UX issue: errorDisplayMode is "on-blur" but updateOn is "submit". Errors will only show after form submission, not after blur.',
+    'Use errorDisplayMode "on-submit", or updateOn "blur".'
+  ),
+  DUPLICATE_DEPENDENCY: define(
+    'NGX-017',
+    'warning',
+    (trigger: string, duplicates: readonly string[]) =>
+      `ValidationConfigBuilder: Duplicate dependencies detected.\n` +
+      `  Trigger: '${trigger}'\n` +
+      `  Duplicates: ${duplicates.map((d) => `'${d}'`).join(', ')}\n` +
+      `  These will be automatically deduplicated.`,
+    'Remove the repeated whenChanged() dependents.'
+  ),
+  DUPLICATE_BIDIRECTIONAL: define(
+    'NGX-018',
+    'warning',
+    (field1: string, field2: string) =>
+      `ValidationConfigBuilder: Duplicate bidirectional relationship detected.\n` +
+      `  Fields: '${field1}' ↔ '${field2}'\n` +
+      `  This bidirectional relationship was already configured.`,
+    'Remove the repeated bidirectional() call.'
+  ),
+  VALIDATION_CONFIG_CYCLE: define(
+    'NGX-019',
+    'warning',
+    (cycle: readonly string[]) =>
+      `validationConfig: Dependency cycle ${[...cycle, cycle[0]].join(' → ')}. Each change revalidates the next field, so one edit can revalidate the whole loop.`,
+    'Make the dependencies two-way with bidirectional() or group(), or remove the step that closes the loop.'
+  ),
+  UNKNOWN_CONFIG_FIELD: define(
+    'NGX-020',
+    'warning',
+    (path: string) =>
+      `validationConfig: Field '${path}' is not part of the form shape, so it never triggers or gets revalidated.`,
+    'Check the field paths in [validationConfig] against your [formShape] and name attributes.'
+  ),
 } as const;
 
-export function logWarning<T extends unknown[]>(
-  error: { code: string; message: (...args: T) => string },
-  ...args: T
+/**
+ * @internal
+ * Builds the diagnostic for a catalog entry.
+ */
+export function createDiagnostic<A extends unknown[]>(
+  definition: NgxDiagnosticDefinition<A>,
+  args: A,
+  cause?: unknown
+): NgxDiagnostic {
+  return {
+    code: definition.code,
+    severity: definition.severity,
+    message: definition.message(...args),
+    hint: definition.hint,
+    docsUrl: definition.docsUrl,
+    ...(cause !== undefined && { cause }),
+  };
+}
+
+/**
+ * @internal
+ * One-line text of a diagnostic: `[NGX-003] message`.
+ */
+export function formatDiagnostic(diagnostic: NgxDiagnostic): string {
+  return `[${diagnostic.code}] ${diagnostic.message}`;
+}
+
+/**
+ * Default sink: logs to the console method matching the severity, with the
+ * hint and docs link on their own lines.
+ */
+export const consoleDiagnosticsSink: NgxDiagnosticsSink = (diagnostic) => {
+  const text = `[ngx-vest-forms] ${formatDiagnostic(diagnostic)}\n${diagnostic.hint}\nSee ${diagnostic.docsUrl}`;
+  const log =
+    diagnostic.severity === 'error'
+      ? console.error
+      : diagnostic.severity === 'warning'
+        ? console.warn
+        : console.info;
+  if (diagnostic.cause === undefined) {
+    log(text);
+  } else {
+    log(text, diagnostic.cause);
+  }
+};
+
+/**
+ * @internal
+ * Reports a catalog entry to the sink, or to the console without one.
+ */
+export function reportDiagnostic<A extends unknown[]>(
+  sink: NgxDiagnosticsSink | null | undefined,
+  definition: NgxDiagnosticDefinition<A>,
+  args: A,
+  cause?: unknown
 ): void {
-  console.warn(
-    `[${error.code}] ${error.message(...args)}\nCheck your [formShape] input and the initial [formValue].`
-  );
+  (sink ?? consoleDiagnosticsSink)(createDiagnostic(definition, args, cause));
 }
@@ -6,14 +6,23 @@ import {
   NgModelGroup,
 } from '@angular/forms';
 import { ControlWrapperComponent } from './components/control-wrapper/control-wrapper.component';
+import { FormErrorSummaryComponent } from './components/form-error-summary/form-error-summary.component';
 import { FormGroupWrapperComponent } from './components/form-group-wrapper/form-group-wrapper.component';
+import { FieldArrayDirective } from './directives/field-array.directive';
 import { FormControlStateDirective } from './directives/form-control-state.directive';
 import { FormErrorControlDirective } from './directives/form-error-control.directive';
 import { FormErrorDisplayDirective } from './directives/form-error-display.directive';
 import { FormModelGroupDirective } from './directives/form-model-group.directive';
 import { FormModelDirective } from './directives/form-model.directive';
+import { FormPersistDirective } from './directives/form-persist.directive';
 import { FormDirective } from './directives/form.directive';
+import {
+  ErrorTemplateDirective,
+  PendingTemplateDirective,
+  WarningTemplateDirective,
+} from './directives/message-templates.directive';
 import { ValidateRootFormDirective } from './directives/validate-root-form.directive';
+import { ValidationGroupDirective } from './directives/validation-group.directive';
 
 /**
  * This is borrowed from  [https://github.com/wardbell/ngc-validate/blob/main/src/app/core/form-container-view-provider.ts](https://github.com/wardbell/ngc-validate/blob/main/src/app/core/form-container-view-provider.ts)
@@ -91,6 +100,7 @@ export const NgxVestForms = [
   ValidateRootFormDirective,
   ControlWrapperComponent,
   FormGroupWrapperComponent,
+  FormErrorSummaryComponent,
   FormControlStateDirective,
   FormErrorDisplayDirective,
   FormErrorControlDirective,
@@ -98,6 +108,12 @@ export const NgxVestForms = [
   FormsModule,
   FormModelDirective,
   FormModelGroupDirective,
+  FieldArrayDirective,
+  ValidationGroupDirective,
+  FormPersistDirective,
+  ErrorTemplateDirective,
+  WarningTemplateDirective,
+  PendingTemplateDirective,
 ] as const;
 
 /**
@@ -0,0 +1,141 @@
+import { Component, inject } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  NGX_ERROR_DISPLAY_MODE_TOKEN,
+  NGX_WARNING_DISPLAY_MODE_TOKEN,
+} from '../directives/error-display-mode.token';
+import {
+  NGX_VEST_FORMS_ERRORS,
+  reportDiagnostic,
+} from '../errors/error-catalog';
+import { NGX_VEST_FORMS_CONFIG, provideNgxVestForms } from './config.token';
+import { NGX_VALIDATION_CONFIG_DEBOUNCE_TOKEN } from './debounce.token';
+import { NGX_VEST_FORMS_DIAGNOSTICS_SINK } from './diagnostics-sink.token';
+import { NGX_ERROR_MESSAGE_FORMATTER } from './error-message-formatter.token';
+
+describe('provideNgxVestForms', () => {
+  it('should default to an empty configuration', () => {
+    TestBed.configureTestingModule({});
+
+    expect(TestBed.inject(NGX_VEST_FORMS_CONFIG)).toEqual({});
+    expect(TestBed.inject(NGX_ERROR_DISPLAY_MODE_TOKEN)).toBe(
+      'on-blur-or-submit'
+    );
+  });
+
+  it('should provide the existing tokens from the configuration', () => {
+    const formatter = vi.fn();
+    TestBed.configureTestingModule({
+      providers: [
+        provideNgxVestForms({
+          errorDisplayMode: 'on-submit',
+          warningDisplayMode: 'always',
+          validationConfigDebounce: 0,
+          messageFormatter: formatter,
+        }),
+      ],
+    });
+
+    expect(TestBed.inject(NGX_ERROR_DISPLAY_MODE_TOKEN)).toBe('on-submit');
+    expect(TestBed.inject(NGX_WARNING_DISPLAY_MODE_TOKEN)).toBe('always');
+    expect(TestBed.inject(NGX_VALIDATION_CONFIG_DEBOUNCE_TOKEN)).toBe(0);
+    expect(TestBed.inject(NGX_ERROR_MESSAGE_FORMATTER)).toBe(formatter);
+  });
+
+  it('should merge component-level overrides with the parent configuration', () => {
+    @Component({
+      template: '',
+      providers: [
+        provideNgxVestForms({
+          errorDisplayMode: 'on-dirty',
+          pendingDebounce: { showAfter: 0 },
+        }),
+      ],
+    })
+    class TestComponent {
+      config = inject(NGX_VEST_FORMS_CONFIG);
+      errorDisplayMode = inject(NGX_ERROR_DISPLAY_MODE_TOKEN);
+      warningDisplayMode = inject(NGX_WARNING_DISPLAY_MODE_TOKEN);
+    }
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideNgxVestForms({
+          errorDisplayMode: 'on-submit',
+          warningDisplayMode: 'on-touch',
+          ariaAssociationMode: 'single-control',
+          pendingDebounce: { showAfter: 300, minimumDisplay: 600 },
+        }),
+      ],
+    });
+
+    const component = TestBed.createComponent(TestComponent).componentInstance;
+
+    expect(component.errorDisplayMode).toBe('on-dirty');
+    expect(component.warningDisplayMode).toBe('on-touch');
+    expect(component.config).toEqual({
+      errorDisplayMode: 'on-dirty',
+      warningDisplayMode: 'on-touch',
+      ariaAssociationMode: 'single-control',
+      pendingDebounce: { showAfter: 0, minimumDisplay: 600 },
+    });
+  });
+
+  it('should merge nested options key by key with the parent configuration', () => {
+    @Component({
+      template: '',
+      providers: [
+        provideNgxVestForms({
+          pendingDebounce: { showAfter: 100 },
+          firstInvalid: { invalidSelector: '.field--invalid' },
+        }),
+      ],
+    })
+    class TestComponent {
+      config = inject(NGX_VEST_FORMS_CONFIG);
+    }
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideNgxVestForms({
+          pendingDebounce: { showAfter: 300, minimumDisplay: 600 },
+          validationOptions: { debounceTime: 200 },
+          firstInvalid: {
+            invalidSelector: '.ds-field--invalid',
+            focusSelector: '.ds-input',
+          },
+        }),
+      ],
+    });
+
+    const { config } = TestBed.createComponent(TestComponent).componentInstance;
+
+    expect(config).toEqual({
+      pendingDebounce: { showAfter: 100, minimumDisplay: 600 },
+      validationOptions: { debounceTime: 200 },
+      firstInvalid: {
+        invalidSelector: '.field--invalid',
+        focusSelector: '.ds-input',
+      },
+    });
+  });
+
+  it('should silence diagnostics with `diagnostics: false`', () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {
+      /* noop */
+    });
+    TestBed.configureTestingModule({
+      providers: [provideNgxVestForms({ diagnostics: false })],
+    });
+
+    reportDiagnostic(
+      TestBed.inject(NGX_VEST_FORMS_DIAGNOSTICS_SINK),
+      NGX_VEST_FORMS_ERRORS.CONTROL_NOT_FOUND,
+      ['email']
+    );
+
+    expect(warnSpy).not.toHaveBeenCalled();
+    warnSpy.mockRestore();
+  });
+});
@@ -0,0 +1,193 @@
+import { inject, InjectionToken, Provider } from '@angular/core';
+import {
+  NGX_ERROR_DISPLAY_MODE_TOKEN,
+  NGX_WARNING_DISPLAY_MODE_TOKEN,
+} from '../directives/error-display-mode.token';
+import type {
+  NgxWarningDisplayMode,
+  ScErrorDisplayMode,
+} from '../directives/form-error-display.directive';
+import type { ValidationOptions } from '../directives/validation-options';
+import type { NgxDiagnosticsSink } from '../errors/error-catalog';
+import type { AriaAssociationMode } from '../utils/aria-association.utils';
+import type { NgxErrorMessageFormatter } from '../utils/error-message.utils';
+import type { NgxFirstInvalidOptions } from '../utils/first-invalid.utils';
+import type { DebouncedPendingStateOptions } from '../utils/pending-state.utils';
+import { NGX_VALIDATION_CONFIG_DEBOUNCE_TOKEN } from './debounce.token';
+import { NGX_VEST_FORMS_DIAGNOSTICS_SINK } from './diagnostics-sink.token';
+import { NGX_ERROR_MESSAGE_FORMATTER } from './error-message-formatter.token';
+
+/**
+ * Library-wide defaults, see {@link provideNgxVestForms}. Every option is
+ * optional; inputs set on an instance always win over the configuration.
+ */
+export type NgxVestFormsConfig = {
+  /** Default `errorDisplayMode` (default: `'on-blur-or-submit'`) */
+  errorDisplayMode?: ScErrorDisplayMode;
+  /** Default `warningDisplayMode` (default: `'on-validated-or-touch'`) */
+  warningDisplayMode?: NgxWarningDisplayMode;
+  /**
+   * Debounce of the "Validating…" message of `ngx-control-wrapper`,
+   * `ngx-form-group-wrapper` and `ngxFormErrorControl` (default: 500ms / 500ms)
+   */
+  pendingDebounce?: DebouncedPendingStateOptions;
+  /** Default `validationOptions` of `ngModel`, `ngModelGroup` and `validateRootForm` (default: `{ debounceTime: 0 }`) */
+  validationOptions?: ValidationOptions;
+  /** Debounce of `validationConfig` revalidation, see `NGX_VALIDATION_CONFIG_DEBOUNCE_TOKEN` */
+  validationConfigDebounce?: number;
+  /** Default `ariaAssociationMode` of `ngx-control-wrapper` and `ngxFormErrorControl` (default: `'all-controls'`) */
+  ariaAssociationMode?: AriaAssociationMode;
+  /**
+   * Defaults of `focusFirstInvalidControl()`, `scrollToFirstInvalidControl()` and
+   * `invalidSubmitOptions`, e.g. the selectors of a design system's invalid fields
+   */
+  firstInvalid?: NgxFirstInvalidOptions;
+  /** Formats validation messages, see `NGX_ERROR_MESSAGE_FORMATTER` */
+  messageFormatter?: NgxErrorMessageFormatter;
+  /**
+   * Receives the library's diagnostics, see `NGX_VEST_FORMS_DIAGNOSTICS_SINK`.
+   * `false` silences them.
+   */
+  diagnostics?: NgxDiagnosticsSink | false;
+};
+
+/**
+ * @internal
+ * Pending message debounce used when neither an input nor the configuration sets one.
+ */
+export const DEFAULT_PENDING_DEBOUNCE = {
+  showAfter: 500,
+  minimumDisplay: 500,
+} as const;
+
+/**
+ * Injection token for the configuration merged from every `provideNgxVestForms()`
+ * up the injector tree. Read it to build wrappers that follow the app defaults;
+ * provide it through {@link provideNgxVestForms}.
+ */
+export const NGX_VEST_FORMS_CONFIG = new InjectionToken<NgxVestFormsConfig>(
+  'NgxVestFormsConfig',
+  {
+    providedIn: 'root',
+    factory: () => ({}),
+  }
+);
+
+/**
+ * Configures ngx-vest-forms in one place: display modes, pending debounce,
+ * default `ValidationOptions`, ARIA association, first-invalid selectors,
+ * message formatting and diagnostics.
+ *
+ * Works in `ApplicationConfig`, route and component `providers`. Each level only
+ * overrides the options it sets; the others are inherited from the parent
+ * injector. The same goes for the keys of `pendingDebounce`, `validationOptions`
+ * and `firstInvalid`, e.g. `pendingDebounce: { showAfter: 0 }` keeps the parent's
+ * `minimumDisplay`. Options that have their own token (`NGX_ERROR_DISPLAY_MODE_TOKEN`,
+ * `NGX_WARNING_DISPLAY_MODE_TOKEN`, `NGX_VALIDATION_CONFIG_DEBOUNCE_TOKEN`,
+ * `NGX_ERROR_MESSAGE_FORMATTER`, `NGX_VEST_FORMS_DIAGNOSTICS_SINK`) are provided
+ * through it, so code injecting those tokens keeps working.
+ *
+ * @example
+ * ```typescript
+ * /// Application defaults
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     provideNgxVestForms({
+ *       errorDisplayMode: 'on-submit',
+ *       pendingDebounce: { showAfter: 300, minimumDisplay: 600 },
+ *       firstInvalid: { invalidSelector: '.ds-field--invalid' },
+ *     }),
+ *   ],
+ * };
+ *
+ * /// A route that validates as you type, keeping the other defaults
+ * {
+ *   path: 'signup',
+ *   component: SignupComponent,
+ *   providers: [provideNgxVestForms({ errorDisplayMode: 'on-dirty' })],
+ * }
+ * ```
+ */
+export function provideNgxVestForms(config: NgxVestFormsConfig): Provider[] {
+  const providers: Provider[] = [
+    {
+      provide: NGX_VEST_FORMS_CONFIG,
+      useFactory: (): NgxVestFormsConfig =>
+        mergeConfig(
+          inject(NGX_VEST_FORMS_CONFIG, { skipSelf: true, optional: true }) ??
+            {},
+          config
+        ),
+    },
+  ];
+  if (config.errorDisplayMode !== undefined) {
+    providers.push({
+      provide: NGX_ERROR_DISPLAY_MODE_TOKEN,
+      useValue: config.errorDisplayMode,
+    });
+  }
+  if (config.warningDisplayMode !== undefined) {
+    providers.push({
+      provide: NGX_WARNING_DISPLAY_MODE_TOKEN,
+      useValue: config.warningDisplayMode,
+    });
+  }
+  if (config.validationConfigDebounce !== undefined) {
+    providers.push({
+      provide: NGX_VALIDATION_CONFIG_DEBOUNCE_TOKEN,
+      useValue: config.validationConfigDebounce,
+    });
+  }
+  if (config.messageFormatter !== undefined) {
+    providers.push({
+      provide: NGX_ERROR_MESSAGE_FORMATTER,
+      useValue: config.messageFormatter,
+    });
+  }
+  if (config.diagnostics !== undefined) {
+    const sink = config.diagnostics;
+    providers.push({
+      provide: NGX_VEST_FORMS_DIAGNOSTICS_SINK,
+      useValue: sink === false ? () => undefined : sink,
+    });
+  }
+  return providers;
+}
+
+/**
+ * Options whose keys are merged with the parent's instead of replacing them.
+ */
+const NESTED_OPTIONS = [
+  'pendingDebounce',
+  'validationOptions',
+  'firstInvalid',
+] as const;
+
+/**
+ * Merges a level's options over the parent's, one level deep for {@link NESTED_OPTIONS}.
+ */
+function mergeConfig(
+  parent: NgxVestFormsConfig,
+  config: NgxVestFormsConfig
+): NgxVestFormsConfig {
+  const merged: Record<string, unknown> = {
+    ...parent,
+    ...withoutUndefined(config),
+  };
+  for (const key of NESTED_OPTIONS) {
+    const own = config[key];
+    if (own) {
+      merged[key] = { ...parent[key], ...withoutUndefined(own) };
+    }
+  }
+  return merged;
+}
+
+/**
+ * Drops options set to `undefined`, so they do not hide the parent's value.
+ */
+function withoutUndefined<T extends object>(options: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(options).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+}
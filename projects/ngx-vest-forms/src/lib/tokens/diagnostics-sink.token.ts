@@ -0,0 +1,45 @@
+import { InjectionToken } from '@angular/core';
+import {
+  consoleDiagnosticsSink,
+  NgxDiagnosticsSink,
+} from '../errors/error-catalog';
+
+/**
+ * Injection token for the sink that receives the library's diagnostics:
+ * misconfigurations such as shape mismatches, a missing `ngxVestForm` context
+ * or `validationConfig` fields that never resolve. Every diagnostic carries a
+ * catalog code (`NGX-003`), a severity, a hint and a documentation link.
+ *
+ * Defaults to logging on the console. Most diagnostics are only reported in
+ * development mode; see docs/DIAGNOSTICS.md for the full catalog.
+ *
+ * @example
+ * ```typescript
+ * /// Send misconfigurations to error monitoring
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     {
+ *       provide: NGX_VEST_FORMS_DIAGNOSTICS_SINK,
+ *       useValue: (diagnostic) => {
+ *         if (diagnostic.severity === 'error') {
+ *           Sentry.captureMessage(`[${diagnostic.code}] ${diagnostic.message}`);
+ *         }
+ *       }
+ *     }
+ *   ]
+ * };
+ *
+ * /// Fail a test on any diagnostic
+ * await render(SignupComponent, {
+ *   providers: [{
+ *     provide: NGX_VEST_FORMS_DIAGNOSTICS_SINK,
+ *     useValue: (d) => { throw new Error(d.message); }
+ *   }]
+ * });
+ * ```
+ */
+export const NGX_VEST_FORMS_DIAGNOSTICS_SINK =
+  new InjectionToken<NgxDiagnosticsSink>('NgxVestFormsDiagnosticsSink', {
+    providedIn: 'root',
+    factory: () => consoleDiagnosticsSink,
+  });
@@ -0,0 +1,30 @@
+import { InjectionToken } from '@angular/core';
+import { NgxErrorMessageFormatter } from '../utils/error-message.utils';
+
+/**
+ * Injection token for formatting (e.g. translating) validation messages before
+ * they are displayed.
+ *
+ * The formatter is applied to field errors and warnings (`ngx-control-wrapper`,
+ * `ngxControlState`), `ROOT_FORM` errors, `formState().errors` and `errorsChange`.
+ * Without a provider, messages are shown exactly as the suite emitted them.
+ *
+ * @example
+ * ```typescript
+ * /// Suites emit keys: test('password', messageWithParams('errors.minLength', { min: 8 }), ...)
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     {
+ *       provide: NGX_ERROR_MESSAGE_FORMATTER,
+ *       useFactory: () => {
+ *         const i18n = inject(TranslationService);
+ *         /// Reads the locale signal, so a locale switch re-renders all messages
+ *         return ({ message, params }) => i18n.translate(message, params);
+ *       }
+ *     }
+ *   ]
+ * };
+ * ```
+ */
+export const NGX_ERROR_MESSAGE_FORMATTER =
+  new InjectionToken<NgxErrorMessageFormatter>('NgxErrorMessageFormatter');
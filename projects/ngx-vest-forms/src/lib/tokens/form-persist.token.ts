@@ -0,0 +1,44 @@
+import { InjectionToken } from '@angular/core';
+import {
+  createLocalStoragePersistence,
+  NgxFormPersistStorage,
+} from '../utils/form-persist.utils';
+
+/**
+ * Injection token for the storage adapter used by `ngxFormPersist`.
+ *
+ * Override it at the application, route, or component level to store drafts
+ * somewhere else. A `[persistStorage]` input on the form wins over the token.
+ *
+ * @example
+ * ```typescript
+ * /// Keep drafts for the lifetime of the tab only
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     {
+ *       provide: NGX_FORM_PERSIST_STORAGE,
+ *       useFactory: createSessionStoragePersistence
+ *     }
+ *   ]
+ * };
+ *
+ * /// Large forms
+ * {
+ *   path: 'travel',
+ *   component: TravelFormComponent,
+ *   providers: [
+ *     {
+ *       provide: NGX_FORM_PERSIST_STORAGE,
+ *       useFactory: () => createIndexedDbPersistence({ storeName: 'travel-drafts' })
+ *     }
+ *   ]
+ * }
+ * ```
+ *
+ * @default `localStorage` (no-op when it is not available, e.g. during SSR)
+ */
+export const NGX_FORM_PERSIST_STORAGE =
+  new InjectionToken<NgxFormPersistStorage>('NgxFormPersistStorage', {
+    providedIn: 'root',
+    factory: createLocalStoragePersistence,
+  });
@@ -0,0 +1,34 @@
+import { InjectionToken } from '@angular/core';
+import { NgxVestFormsTracer } from '../utils/tracing.utils';
+
+/**
+ * Injection token for a tracer that receives structured validation events:
+ * suite run start/finish, `validationConfig` triggers, `formValue` sync decisions,
+ * reset, submit and root-form validation.
+ *
+ * Use it to find out why a dependent field revalidated several times or why
+ * values bounce between `formValue` and the form. Without a provider, tracing
+ * is a no-op.
+ *
+ * @example
+ * ```typescript
+ * /// Log every event in development
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     {
+ *       provide: NGX_VEST_FORMS_TRACER,
+ *       useValue: (event) => console.debug('[vest]', event.type, event)
+ *     }
+ *   ]
+ * };
+ *
+ * /// Record events in a test
+ * const events: NgxTraceEvent[] = [];
+ * await render(SignupComponent, {
+ *   providers: [{ provide: NGX_VEST_FORMS_TRACER, useValue: (e) => events.push(e) }]
+ * });
+ * ```
+ */
+export const NGX_VEST_FORMS_TRACER = new InjectionToken<NgxVestFormsTracer>(
+  'NgxVestFormsTracer'
+);
@@ -0,0 +1,27 @@
+import { AbstractControl } from '@angular/forms';
+
+const controlElements = new WeakMap<AbstractControl, HTMLElement>();
+
+/**
+ * @internal
+ * Remembers the host element of the `ngModel`/`ngModelGroup` directive bound to a control,
+ * so form-level UI (such as the error summary) can move focus to it.
+ */
+export function registerControlElement(
+  control: AbstractControl,
+  element: HTMLElement
+): void {
+  controlElements.set(control, element);
+}
+
+/**
+ * @internal
+ * Returns the element registered for a control, or `null` when it is unknown
+ * or no longer attached to the document.
+ */
+export function getControlElement(
+  control: AbstractControl
+): HTMLElement | null {
+  const element = controlElements.get(control);
+  return element?.isConnected ? element : null;
+}
@@ -0,0 +1,99 @@
+import { signal, Signal } from '@angular/core';
+import type { NgxShapeMismatch } from './shape-validation';
+import type { NgxValidationConfigAnalysis } from './validation-config-analysis.utils';
+
+/**
+ * How many `validationConfig` trigger runs the devtools panel keeps.
+ */
+const MAX_TRIGGER_RUNS = 20;
+
+/**
+ * A `validationConfig` trigger that fired and the dependents it revalidated.
+ */
+export type NgxDevtoolsTriggerRun = {
+  readonly trigger: string;
+  /** Dependents that were revalidated (missing or in-progress ones are skipped) */
+  readonly dependents: readonly string[];
+  /** `Date.now()` when the trigger fired */
+  readonly at: number;
+};
+
+/**
+ * Duration of the last Vest suite run for one field.
+ */
+export type NgxDevtoolsSuiteRun = {
+  readonly field: string;
+  /** Time until `done()` fired, including async tests */
+  readonly durationMs: number;
+  /** `Date.now()` when the run finished */
+  readonly at: number;
+};
+
+/**
+ * Debug information recorded by `ngxVestForm` for `ngx-vest-forms-devtools`.
+ */
+export type NgxDevtoolsSnapshot = {
+  /** Most recent trigger runs, newest first */
+  readonly triggerRuns: readonly NgxDevtoolsTriggerRun[];
+  /** Last suite run per field */
+  readonly suiteRuns: ReadonlyMap<string, NgxDevtoolsSuiteRun>;
+  readonly lastSuiteRun: NgxDevtoolsSuiteRun | null;
+  /** Mismatches reported by the last `validateShape` run */
+  readonly shapeMismatches: readonly NgxShapeMismatch[];
+  /** Resolved `validationConfig` graph with its cycles and unknown fields */
+  readonly configAnalysis: NgxValidationConfigAnalysis | null;
+};
+
+/**
+ * @internal
+ * Records debug information of one form. Only created in development mode.
+ */
+export type NgxDevtoolsRecorder = {
+  readonly snapshot: Signal<NgxDevtoolsSnapshot>;
+  recordTriggerRun(trigger: string, dependents: readonly string[]): void;
+  recordSuiteRun(field: string, durationMs: number): void;
+  setShapeMismatches(mismatches: readonly NgxShapeMismatch[]): void;
+  setConfigAnalysis(analysis: NgxValidationConfigAnalysis): void;
+};
+
+/**
+ * @internal
+ * Creates an empty {@link NgxDevtoolsRecorder}.
+ */
+export function createDevtoolsRecorder(): NgxDevtoolsRecorder {
+  const snapshot = signal<NgxDevtoolsSnapshot>({
+    triggerRuns: [],
+    suiteRuns: new Map(),
+    lastSuiteRun: null,
+    shapeMismatches: [],
+    configAnalysis: null,
+  });
+
+  return {
+    snapshot: snapshot.asReadonly(),
+    recordTriggerRun: (trigger, dependents) =>
+      snapshot.update((state) => ({
+        ...state,
+        triggerRuns: [
+          { trigger, dependents: [...dependents], at: Date.now() },
+          ...state.triggerRuns,
+        ].slice(0, MAX_TRIGGER_RUNS),
+      })),
+    recordSuiteRun: (field, durationMs) =>
+      snapshot.update((state) => {
+        const run = { field, durationMs, at: Date.now() };
+        return {
+          ...state,
+          suiteRuns: new Map(state.suiteRuns).set(field, run),
+          lastSuiteRun: run,
+        };
+      }),
+    setShapeMismatches: (mismatches) =>
+      snapshot.update((state) => ({
+        ...state,
+        shapeMismatches: [...mismatches],
+      })),
+    setConfigAnalysis: (configAnalysis) =>
+      snapshot.update((state) => ({ ...state, configAnalysis })),
+  };
+}
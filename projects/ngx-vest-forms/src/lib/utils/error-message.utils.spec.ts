@@ -0,0 +1,86 @@
+import { signal } from '@angular/core';
+import { describe, expect, it } from 'vitest';
+import {
+  formatErrorsMap,
+  formatMessages,
+  messageWithParams,
+  NgxErrorMessageFormatter,
+  parseMessageWithParams,
+} from './error-message.utils';
+
+describe('error-message utils', () => {
+  describe('messageWithParams / parseMessageWithParams', () => {
+    it('should round-trip a key with params', () => {
+      const encoded = messageWithParams('errors.minLength', { min: 8 });
+
+      expect(parseMessageWithParams(encoded)).toEqual({
+        message: 'errors.minLength',
+        params: { min: 8 },
+      });
+    });
+
+    it('should leave plain messages untouched', () => {
+      expect(parseMessageWithParams('Ratio must be 1::2')).toEqual({
+        message: 'Ratio must be 1::2',
+        params: {},
+      });
+    });
+  });
+
+  describe('formatMessages', () => {
+    it('should return the messages unchanged without a formatter', () => {
+      expect(formatMessages(null, 'email', ['Required'], 'error')).toEqual([
+        'Required',
+      ]);
+    });
+
+    it('should pass path, kind, key and params to the formatter', () => {
+      const formatter: NgxErrorMessageFormatter = ({
+        path,
+        kind,
+        message,
+        params,
+      }) => `${kind}:${path}:${message}:${params['min'] ?? '-'}`;
+
+      expect(
+        formatMessages(
+          formatter,
+          'password',
+          [messageWithParams('errors.minLength', { min: 8 }), 'plain'],
+          'warning'
+        )
+      ).toEqual([
+        'warning:password:errors.minLength:8',
+        'warning:password:plain:-',
+      ]);
+    });
+
+    it('should unwrap signals returned by the formatter', () => {
+      const translated = signal('Verplicht');
+
+      expect(
+        formatMessages(() => translated, 'email', ['required'], 'error')
+      ).toEqual(['Verplicht']);
+    });
+  });
+
+  describe('formatErrorsMap', () => {
+    it('should format errors and the non-enumerable warnings of each entry', () => {
+      const messages = ['required'];
+      Object.defineProperty(messages, 'warnings', {
+        value: ['weak'],
+        enumerable: false,
+      });
+
+      const result = formatErrorsMap(
+        ({ message, kind }) => `${kind}:${message}`,
+        { email: messages }
+      );
+
+      expect(result).toEqual({ email: ['error:required'] });
+      expect(
+        (result['email'] as string[] & { warnings?: string[] }).warnings
+      ).toEqual(['warning:weak']);
+    });
+  });
+});
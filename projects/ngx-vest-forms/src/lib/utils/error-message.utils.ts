@@ -0,0 +1,138 @@
+import { isSignal, Signal } from '@angular/core';
+
+/**
+ * Separates a message key from its JSON-encoded params in messages built with
+ * {@link messageWithParams}.
+ */
+const MESSAGE_PARAMS_SEPARATOR = '::';
+
+/**
+ * Everything an error message formatter needs to render one message.
+ */
+export type NgxErrorMessageContext = {
+  /** Field path the message belongs to (`ROOT_FORM` for form-level messages) */
+  readonly path: string;
+  /** Message key, or the raw Vest message when it carries no params */
+  readonly message: string;
+  /** Params encoded with {@link messageWithParams} (empty object otherwise) */
+  readonly params: Readonly<Record<string, unknown>>;
+  /** Whether the message is a blocking error or a warning */
+  readonly kind: 'error' | 'warning';
+};
+
+/**
+ * Turns a raw Vest message (or message key) into the displayed string.
+ *
+ * Signals read inside the formatter (e.g. the active locale) are tracked, so a
+ * locale switch re-renders messages without re-running validation. Returning a
+ * `Signal<string>` is supported as well.
+ */
+export type NgxErrorMessageFormatter = (
+  context: NgxErrorMessageContext
+) => string | Signal<string>;
+
+/**
+ * Encodes a message key and its params into a single string, so suites can emit
+ * translatable keys through Vest's string-only messages.
+ *
+ * @example
+ * ```typescript
+ * test('password', messageWithParams('errors.minLength', { min: 8 }), () => {
+ *   enforce(model.password).longerThanOrEquals(8);
+ * });
+ * ```
+ */
+export function messageWithParams(
+  key: string,
+  params: Record<string, unknown>
+): string {
+  return `${key}${MESSAGE_PARAMS_SEPARATOR}${JSON.stringify(params)}`;
+}
+
+/**
+ * @internal
+ * Splits a message built with {@link messageWithParams} into key and params.
+ * Plain messages are returned unchanged with empty params.
+ */
+export function parseMessageWithParams(message: string): {
+  message: string;
+  params: Record<string, unknown>;
+} {
+  const separatorIndex = message.indexOf(MESSAGE_PARAMS_SEPARATOR);
+  if (separatorIndex > 0) {
+    try {
+      const params: unknown = JSON.parse(
+        message.slice(separatorIndex + MESSAGE_PARAMS_SEPARATOR.length)
+      );
+      if (params && typeof params === 'object' && !Array.isArray(params)) {
+        return {
+          message: message.slice(0, separatorIndex),
+          params: params as Record<string, unknown>,
+        };
+      }
+    } catch {
+      // Not encoded params, treat the whole string as the message
+    }
+  }
+  return { message, params: {} };
+}
+
+/**
+ * @internal
+ * Formats a list of messages for one field. Returns the input unchanged when no
+ * formatter is configured.
+ */
+export function formatMessages(
+  formatter: NgxErrorMessageFormatter | null,
+  path: string,
+  messages: readonly string[],
+  kind: NgxErrorMessageContext['kind']
+): string[] {
+  if (!formatter) {
+    return [...messages];
+  }
+  return messages.map((raw) =>
+    formatMessage(formatter, { path, kind, ...parseMessageWithParams(raw) })
+  );
+}
+
+/**
+ * @internal
+ * Runs the formatter for one message, unwrapping `Signal<string>` results.
+ */
+export function formatMessage(
+  formatter: NgxErrorMessageFormatter,
+  context: NgxErrorMessageContext
+): string {
+  const formatted = formatter(context);
+  return isSignal(formatted) ? formatted() : formatted;
+}
+
+/**
+ * @internal
+ * Formats every message of an errors map (as returned by `getAllFormErrors`),
+ * including the non-enumerable `warnings` attached to field entries.
+ */
+export function formatErrorsMap(
+  formatter: NgxErrorMessageFormatter | null,
+  errors: Record<string, string[]>
+): Record<string, string[]> {
+  if (!formatter) {
+    return errors;
+  }
+  const result: Record<string, string[]> = {};
+  for (const [path, messages] of Object.entries(errors)) {
+    const formatted = formatMessages(formatter, path, messages, 'error');
+    const warnings = (messages as string[] & { warnings?: string[] }).warnings;
+    if (warnings) {
+      Object.defineProperty(formatted, 'warnings', {
+        value: formatMessages(formatter, path, warnings, 'warning'),
+        enumerable: false,
+        configurable: true,
+        writable: true,
+      });
+    }
+    result[path] = formatted;
+  }
+  return result;
+}
@@ -0,0 +1,88 @@
+import { FormArray, FormControl, FormGroup } from '@angular/forms';
+import { describe, expect, it } from 'vitest';
+import {
+  collectLeafControlPaths,
+  createLocalStoragePersistence,
+  isPersistedFormState,
+  pruneToShape,
+} from './form-persist.utils';
+
+describe('form-persist utils', () => {
+  describe('pruneToShape', () => {
+    it('should drop properties that are not part of the shape', () => {
+      expect(
+        pruneToShape(
+          { name: 'Jane', legacy: true, address: { city: 'Ghent', zip: 1 } },
+          { name: '', address: { city: '' } }
+        )
+      ).toEqual({ name: 'Jane', address: { city: 'Ghent' } });
+    });
+
+    it('should compare array items against the first shape item', () => {
+      expect(
+        pruneToShape(
+          { phones: { 0: { number: '1', old: 1 }, 1: { number: '2' } } },
+          { phones: { 0: { number: '' } } }
+        )
+      ).toEqual({ phones: { 0: { number: '1' }, 1: { number: '2' } } });
+    });
+
+    it('should keep dates and primitives as-is', () => {
+      const date = new Date(0);
+      expect(pruneToShape(date, { year: 0 })).toBe(date);
+      expect(pruneToShape('value', {})).toBe('value');
+    });
+  });
+
+  describe('isPersistedFormState', () => {
+    it('should accept drafts and reject anything else', () => {
+      expect(
+        isPersistedFormState({
+          version: 1,
+          value: {},
+          touched: [],
+          dirty: [],
+          submitted: false,
+          savedAt: 0,
+        })
+      ).toBe(true);
+      expect(isPersistedFormState({ name: 'Jane' })).toBe(false);
+      expect(isPersistedFormState(null)).toBe(false);
+    });
+  });
+
+  describe('collectLeafControlPaths', () => {
+    it('should collect nested leaf paths that match the predicate', () => {
+      const form = new FormGroup({
+        name: new FormControl('Jane'),
+        phones: new FormArray([new FormControl('1'), new FormControl('2')]),
+      });
+      form.get('name')?.markAsDirty();
+      form.get('phones.1')?.markAsDirty();
+
+      expect(collectLeafControlPaths(form, (control) => control.dirty)).toEqual(
+        ['name', 'phones[1]']
+      );
+    });
+  });
+
+  describe('createLocalStoragePersistence', () => {
+    it('should round-trip drafts through localStorage as JSON', () => {
+      const storage = createLocalStoragePersistence();
+      const state = {
+        version: 2,
+        value: { name: 'Jane' },
+        touched: ['name'],
+        dirty: [],
+        submitted: true,
+        savedAt: 1,
+      };
+
+      storage.setItem('ngx-persist-spec', state);
+      expect(storage.getItem('ngx-persist-spec')).toEqual(state);
+
+      storage.removeItem('ngx-persist-spec');
+      expect(storage.getItem('ngx-persist-spec')).toBeNull();
+    });
+  });
+});
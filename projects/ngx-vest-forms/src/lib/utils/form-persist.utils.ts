@@ -0,0 +1,232 @@
+import { AbstractControl, FormArray, FormGroup } from '@angular/forms';
+import { stringifyFieldPath } from './field-path.utils';
+
+/**
+ * Draft of a form as written by `ngxFormPersist`.
+ *
+ * @template T The form model type
+ */
+export type NgxPersistedFormState<T = unknown> = {
+  /** Version of the stored shape, compared against the directive's `persistVersion` */
+  version: number;
+  /** Form value, including disabled fields */
+  value: T;
+  /** Paths of touched fields */
+  touched: string[];
+  /** Paths of dirty fields */
+  dirty: string[];
+  /** Whether the form had been submitted */
+  submitted: boolean;
+  /** Timestamp (ms since epoch) of the last save */
+  savedAt: number;
+};
+
+/**
+ * Storage backend for `ngxFormPersist`. Methods may be sync or async.
+ *
+ * Implement this to store drafts anywhere (a server, a signal store, ...).
+ * Ready-made adapters: {@link createLocalStoragePersistence},
+ * {@link createSessionStoragePersistence} and {@link createIndexedDbPersistence}.
+ */
+export type NgxFormPersistStorage = {
+  getItem(
+    key: string
+  ): NgxPersistedFormState | null | Promise<NgxPersistedFormState | null>;
+  setItem(key: string, state: NgxPersistedFormState): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+};
+
+/**
+ * Upgrades a draft that was stored with another `version`.
+ * Return `null` to discard the draft.
+ */
+export type NgxFormPersistMigration = (
+  state: NgxPersistedFormState
+) => NgxPersistedFormState | null;
+
+/**
+ * Adapter that keeps nothing. Used when no Web Storage is available (SSR).
+ */
+const noopPersistence: NgxFormPersistStorage = {
+  getItem: () => null,
+  setItem: () => undefined,
+  removeItem: () => undefined,
+};
+
+function createWebStoragePersistence(
+  getStorage: () => Storage | undefined
+): NgxFormPersistStorage {
+  const storage = getStorage();
+  if (!storage) {
+    return noopPersistence;
+  }
+  return {
+    getItem: (key) => {
+      const raw = storage.getItem(key);
+      return raw === null ? null : (JSON.parse(raw) as NgxPersistedFormState);
+    },
+    setItem: (key, state) => storage.setItem(key, JSON.stringify(state)),
+    removeItem: (key) => storage.removeItem(key),
+  };
+}
+
+/**
+ * Stores drafts as JSON in `localStorage` (survives browser restarts).
+ * Falls back to a no-op adapter when `localStorage` is not available.
+ */
+export function createLocalStoragePersistence(): NgxFormPersistStorage {
+  return createWebStoragePersistence(() => globalThis.localStorage);
+}
+
+/**
+ * Stores drafts as JSON in `sessionStorage` (kept for the lifetime of the tab).
+ * Falls back to a no-op adapter when `sessionStorage` is not available.
+ */
+export function createSessionStoragePersistence(): NgxFormPersistStorage {
+  return createWebStoragePersistence(() => globalThis.sessionStorage);
+}
+
+/**
+ * Stores drafts in IndexedDB, which handles large forms and `Date` values
+ * without JSON serialization.
+ *
+ * @param options.databaseName - Database name (default: `'ngx-vest-forms'`)
+ * @param options.storeName - Object store name (default: `'form-drafts'`)
+ */
+export function createIndexedDbPersistence(
+  options: { databaseName?: string; storeName?: string } = {}
+): NgxFormPersistStorage {
+  const { databaseName = 'ngx-vest-forms', storeName = 'form-drafts' } =
+    options;
+  if (typeof globalThis.indexedDB === 'undefined') {
+    return noopPersistence;
+  }
+
+  let database: Promise<IDBDatabase> | null = null;
+  const openDatabase = (): Promise<IDBDatabase> => {
+    database ??= new Promise((resolve, reject) => {
+      const request = globalThis.indexedDB.open(databaseName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(storeName);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return database;
+  };
+
+  const run = async <R>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<R>
+  ): Promise<R> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+      const request = operation(
+        db.transaction(storeName, mode).objectStore(storeName)
+      );
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    getItem: async (key) =>
+      ((await run('readonly', (store) => store.get(key))) as
+        | NgxPersistedFormState
+        | undefined) ?? null,
+    setItem: async (key, state) => {
+      await run('readwrite', (store) => store.put(state, key));
+    },
+    removeItem: async (key) => {
+      await run('readwrite', (store) => store.delete(key));
+    },
+  };
+}
+
+/**
+ * @internal
+ * Returns `true` when a stored value looks like a draft written by `ngxFormPersist`.
+ */
+export function isPersistedFormState(
+  value: unknown
+): value is NgxPersistedFormState {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const state = value as Partial<NgxPersistedFormState>;
+  return (
+    typeof state.version === 'number' &&
+    Array.isArray(state.touched) &&
+    Array.isArray(state.dirty) &&
+    typeof state.submitted === 'boolean'
+  );
+}
+
+/**
+ * @internal
+ * Drops the properties of a stored value that are not part of the form shape,
+ * so a draft saved before a model change does not trigger shape warnings.
+ *
+ * Array items (numeric keys) are compared against the first item of the shape,
+ * matching `validateShape`.
+ */
+export function pruneToShape(value: unknown, shape: unknown): unknown {
+  if (
+    !value ||
+    typeof value !== 'object' ||
+    !shape ||
+    typeof shape !== 'object' ||
+    value instanceof Date
+  ) {
+    return value;
+  }
+
+  const shapeRecord = shape as Record<string, unknown>;
+  const result: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value)) {
+    const isNumericKey = /^\d+$/.test(key);
+    const shapeKey = isNumericKey && !(key in shapeRecord) ? '0' : key;
+    if (!(shapeKey in shapeRecord)) {
+      continue;
+    }
+    result[key] = pruneToShape(child, shapeRecord[shapeKey]);
+  }
+  return result;
+}
+
+/**
+ * @internal
+ * Collects the paths of all leaf controls matching the predicate.
+ */
+export function collectLeafControlPaths(
+  control: AbstractControl,
+  predicate: (control: AbstractControl) => boolean
+): string[] {
+  const paths: string[] = [];
+
+  const collect = (
+    current: AbstractControl,
+    path: Array<string | number>
+  ): void => {
+    if (current instanceof FormGroup) {
+      for (const [name, child] of Object.entries(current.controls)) {
+        collect(child, [...path, name]);
+      }
+      return;
+    }
+
+    if (current instanceof FormArray) {
+      current.controls.forEach((child, index) => {
+        collect(child, [...path, index]);
+      });
+      return;
+    }
+
+    if (path.length > 0 && predicate(current)) {
+      paths.push(stringifyFieldPath(path));
+    }
+  };
+
+  collect(control, []);
+  return paths;
+}
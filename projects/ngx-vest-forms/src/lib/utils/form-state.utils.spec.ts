@@ -9,6 +9,8 @@ describe('form-state.utils', () => {
         value: null,
         errors: {},
         valid: true,
+        groups: {},
+        issues: [],
       });
     });
 
@@ -1,3 +1,5 @@
+import { NgxValidationIssue } from './validation-issue.utils';
+
 /**
  * Represents the state of a form managed by scVestForm directive.
  * This is the structure returned by NgxVestFormDirective.formState() or similar.
@@ -9,6 +11,26 @@ export type NgxFormState<TModel = unknown> = {
   errors: Record<string, string[]>;
   /** Current form value (includes disabled fields) */
   value: TModel | null;
+  /**
+   * Validity and errors per validation group (`ngxValidationGroup` / `validationGroup`),
+   * keyed by group name. Only groups with at least one registered field are listed.
+   */
+  groups?: Record<string, NgxValidationGroupState>;
+  /**
+   * Errors and warnings as structured issues (message, severity, field, test name
+   * and params), in the same order as `errors`.
+   */
+  issues?: NgxValidationIssue[];
+};
+
+/**
+ * Validity and errors of the fields that belong to one validation group.
+ */
+export type NgxValidationGroupState = {
+  /** Whether every field of the group is valid (pending fields count as not valid) */
+  valid: boolean;
+  /** Errors of the group's fields by field path */
+  errors: Record<string, string[]>;
 };
 
 /**
@@ -45,5 +67,7 @@ export function createEmptyFormState<TModel = unknown>(): NgxFormState<TModel> {
     value: null,
     errors: {},
     valid: true,
+    groups: {},
+    issues: [],
   };
 }
@@ -0,0 +1,135 @@
+import { FormControl, FormGroup } from '@angular/forms';
+import { enforce, only, staticSuite, test as vestTest, warn } from 'vest';
+import { describe, expect, it } from 'vitest';
+import {
+  attachVestSuite,
+  getControlWarnings,
+  vestValidator,
+} from './reactive-forms.utils';
+
+type PasswordModel = {
+  username?: string;
+  password?: string;
+  confirmPassword?: string;
+};
+
+const passwordSuite = staticSuite((model: PasswordModel, field?: string) => {
+  only(field);
+  vestTest('username', 'Username is required', () => {
+    enforce(model.username).isNotBlank();
+  });
+  vestTest('username', 'Short usernames are easy to guess', () => {
+    warn();
+    enforce(model.username).longerThanOrEquals(5);
+  });
+  vestTest('confirmPassword', 'Passwords do not match', () => {
+    enforce(model.confirmPassword).equals(model.password);
+  });
+});
+
+function createForm(value: PasswordModel = {}) {
+  return new FormGroup({
+    username: new FormControl(value.username ?? ''),
+    password: new FormControl(value.password ?? ''),
+    confirmPassword: new FormControl(value.confirmPassword ?? ''),
+  });
+}
+
+describe('reactive-forms utils', () => {
+  describe('vestValidator', () => {
+    it('should map Vest errors and keep warnings of valid controls aside', async () => {
+      const form = createForm();
+      const username = form.controls.username;
+      username.addAsyncValidators(vestValidator(passwordSuite, 'username'));
+
+      username.updateValueAndValidity();
+      await expect
+        .poll(() => username.errors)
+        .toEqual({ errors: ['Username is required'] });
+
+      username.setValue('jan');
+      await expect.poll(() => username.status).toBe('VALID');
+      expect(username.errors).toBeNull();
+      expect(getControlWarnings(username)()).toEqual([
+        'Short usernames are easy to guess',
+      ]);
+    });
+
+    it('should abort the running suite when the value changes', async () => {
+      const signals: (AbortSignal | undefined)[] = [];
+      const suite = staticSuite(
+        (
+          model: PasswordModel,
+          field?: string,
+          _group?: string,
+          signal?: AbortSignal
+        ) => {
+          only(field);
+          vestTest('username', 'Username is taken', async () => {
+            signals.push(signal);
+            await new Promise<void>(() => undefined);
+          });
+        }
+      );
+      const username = createForm().controls.username;
+      username.addAsyncValidators(vestValidator(suite, 'username'));
+
+      username.setValue('jane');
+      await expect.poll(() => signals.length).toBe(1);
+      username.setValue('janet');
+      await expect.poll(() => signals.length).toBe(2);
+
+      expect(signals.map((signal) => signal?.aborted)).toEqual([true, false]);
+    });
+  });
+
+  describe('attachVestSuite', () => {
+    it('should validate cross-field tests against the whole form value', async () => {
+      const form = createForm({ username: 'janedoe', password: 'secret' });
+      attachVestSuite(form, passwordSuite);
+
+      await expect
+        .poll(() => form.controls.confirmPassword.errors)
+        .toEqual({ errors: ['Passwords do not match'] });
+
+      form.controls.confirmPassword.setValue('secret');
+      await expect.poll(() => form.valid).toBe(true);
+    });
+
+    it('should revalidate dependents from validationConfig', async () => {
+      const form = createForm({
+        username: 'janedoe',
+        password: 'secret',
+        confirmPassword: 'secret',
+      });
+      attachVestSuite(form, passwordSuite, {
+        validationConfig: { password: ['confirmPassword'] },
+        validationConfigDebounceTime: 0,
+      });
+      await expect.poll(() => form.valid).toBe(true);
+
+      form.controls.password.setValue('changed');
+
+      await expect
+        .poll(() => form.controls.confirmPassword.errors)
+        .toEqual({ errors: ['Passwords do not match'] });
+    });
+
+    it('should collect warnings by field path and clean up on detach', async () => {
+      const form = createForm({ username: 'jan' });
+      const vest = attachVestSuite(form, passwordSuite);
+
+      await expect
+        .poll(() => vest.fieldWarnings())
+        .toEqual(
+          new Map([['username', ['Short usernames are easy to guess']]])
+        );
+
+      vest.detach();
+      form.controls.confirmPassword.setValue('mismatch');
+
+      expect(vest.fieldWarnings().size).toBe(0);
+      expect(form.controls.confirmPassword.errors).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,307 @@
+import {
+  computed,
+  isDevMode,
+  signal,
+  Signal,
+  WritableSignal,
+} from '@angular/core';
+import {
+  AbstractControl,
+  AsyncValidatorFn,
+  FormArray,
+  FormGroup,
+  ValidationErrors,
+} from '@angular/forms';
+import {
+  catchError,
+  debounceTime,
+  EMPTY,
+  filter,
+  merge,
+  Observable,
+  of,
+  Subscription,
+  switchMap,
+  take,
+  tap,
+  timer,
+} from 'rxjs';
+import {
+  NGX_VEST_FORMS_ERRORS,
+  NgxDiagnosticsSink,
+  reportDiagnostic,
+} from '../errors/error-catalog';
+import type { ValidationConfigMap } from './field-path-types';
+import { mergeValuesAndRawValues, setValueAtPath } from './form-utils';
+import { NgxTypedVestSuite, NgxVestSuite } from './validation-suite';
+
+/**
+ * How long dependents stay guarded after a `validationConfig` revalidation,
+ * matching `ngxVestForm`, so bidirectional dependencies do not loop.
+ */
+const VALIDATION_IN_PROGRESS_TIMEOUT_MS = 500;
+
+const controlWarnings = new WeakMap<
+  AbstractControl,
+  WritableSignal<readonly string[]>
+>();
+
+function controlWarningsSignal(
+  control: AbstractControl
+): WritableSignal<readonly string[]> {
+  let warnings = controlWarnings.get(control);
+  if (!warnings) {
+    warnings = signal<readonly string[]>([]);
+    controlWarnings.set(control, warnings);
+  }
+  return warnings;
+}
+
+/**
+ * @internal
+ * Warnings of the last Vest run for a control validated with {@link vestValidator}.
+ * Lets control wrappers show warnings of valid reactive controls, which have no
+ * `control.errors` to carry them.
+ */
+export function getControlWarnings(
+  control: AbstractControl
+): Signal<readonly string[]> {
+  return controlWarningsSignal(control).asReadonly();
+}
+
+/**
+ * Options for {@link vestValidator}.
+ */
+export type NgxVestValidatorOptions = {
+  /** Time (in milliseconds) to wait after the last change before running the suite */
+  debounceTime?: number;
+  /** Vest group passed to the suite as third argument */
+  group?: string;
+};
+
+/**
+ * Options for {@link attachVestSuite}.
+ */
+export type NgxAttachVestSuiteOptions<T> = NgxVestValidatorOptions & {
+  /**
+   * Revalidates dependent fields when a trigger field changes, like
+   * `[validationConfig]` on `ngxVestForm`.
+   */
+  validationConfig?: ValidationConfigMap<T> | Record<string, string[]> | null;
+  /** Time (in milliseconds) to wait before revalidating dependents. Defaults to 100. */
+  validationConfigDebounceTime?: number;
+  /**
+   * Receives the dev-mode diagnostics, like `NGX_VEST_FORMS_DIAGNOSTICS_SINK`.
+   * Defaults to the console.
+   */
+  diagnostics?: NgxDiagnosticsSink;
+};
+
+/**
+ * Handle returned by {@link attachVestSuite}.
+ */
+export type NgxVestSuiteRef = {
+  /**
+   * Warnings keyed by field path, like `fieldWarnings` on `ngxVestForm`.
+   * Warnings never make a control invalid.
+   */
+  readonly fieldWarnings: Signal<Map<string, readonly string[]>>;
+  /** Removes the validators and stops `validationConfig` revalidation */
+  detach(): void;
+};
+
+/**
+ * Creates an async validator that runs a Vest suite for one field of a reactive form.
+ *
+ * The suite receives the value of the root form (including disabled controls) with
+ * the candidate value at `path`, so cross-field tests work like in `ngxVestForm`.
+ * Errors are returned as `{ errors, warnings? }`; warnings of valid controls are kept
+ * aside so `ngx-control-wrapper` can still show them.
+ *
+ * @example
+ * ```typescript
+ * readonly form = new FormGroup({
+ *   email: new FormControl('', {
+ *     asyncValidators: vestValidator(userSuite, 'email'),
+ *   }),
+ * });
+ * ```
+ *
+ * @param suite - The same suite used with `[suite]` on `ngxVestForm`
+ * @param path - Vest field name of the control, e.g. `addresses.0.street`
+ */
+export function vestValidator<T>(
+  suite: NgxTypedVestSuite<T> | NgxVestSuite<T>,
+  path: string,
+  options: NgxVestValidatorOptions = {}
+): AsyncValidatorFn {
+  const runSuite = suite as NgxVestSuite<T>;
+
+  return (control: AbstractControl): Observable<ValidationErrors | null> => {
+    const root = control.root;
+    const snapshot = (
+      root instanceof FormGroup && root !== control
+        ? mergeValuesAndRawValues<T>(root)
+        : {}
+    ) as T;
+    setValueAtPath(snapshot as object, path, control.value);
+
+    return timer(options.debounceTime ?? 0).pipe(
+      switchMap(
+        () =>
+          new Observable<ValidationErrors | null>((observer) => {
+            const abortController = new AbortController();
+            let settled = false;
+            runSuite(
+              snapshot,
+              path,
+              options.group,
+              abortController.signal
+            ).done((result) => {
+              if (abortController.signal.aborted) return;
+              settled = true;
+              const errors: string[] | undefined = result.getErrors()[path];
+              const warnings: string[] | undefined = result.getWarnings()[path];
+
+              controlWarningsSignal(control).set(warnings ?? []);
+              observer.next(
+                errors?.length
+                  ? { errors, ...(warnings?.length && { warnings }) }
+                  : null
+              );
+              observer.complete();
+            });
+
+            // Angular unsubscribes when the value changes before the run settled
+            return () => {
+              if (!settled) {
+                abortController.abort();
+              }
+            };
+          })
+      ),
+      catchError(() => of({ vestInternalError: 'Validation failed' })),
+      take(1)
+    );
+  };
+}
+
+/**
+ * Wires a Vest suite onto every control of an existing reactive form tree
+ * (`FormGroup`/`FormBuilder`), so legacy screens share suites with template-driven ones.
+ *
+ * Field names are the control paths (`addresses.0.street`). Controls added later
+ * are not wired automatically: call `detach()` and attach again after structural changes.
+ *
+ * @example
+ * ```typescript
+ * readonly form = this.fb.group({ password: [''], confirmPassword: [''] });
+ * readonly vest = attachVestSuite(this.form, passwordSuite, {
+ *   validationConfig: { password: ['confirmPassword'] },
+ * });
+ *
+ * ngOnDestroy() {
+ *   this.vest.detach();
+ * }
+ * ```
+ */
+export function attachVestSuite<T>(
+  form: FormGroup,
+  suite: NgxTypedVestSuite<T> | NgxVestSuite<T>,
+  options: NgxAttachVestSuiteOptions<T> = {}
+): NgxVestSuiteRef {
+  const attached: Array<[string, AbstractControl, AsyncValidatorFn]> = [];
+
+  const attach = (control: AbstractControl, path: string): void => {
+    if (path) {
+      const validator = vestValidator(suite, path, options);
+      control.addAsyncValidators(validator);
+      attached.push([path, control, validator]);
+    }
+    if (control instanceof FormGroup || control instanceof FormArray) {
+      for (const [key, child] of Object.entries(control.controls)) {
+        attach(child, path ? `${path}.${key}` : key);
+      }
+    }
+  };
+  attach(form, '');
+  // Deepest first, so groups see the fresh validity of their children
+  for (const [, control] of [...attached].reverse()) {
+    control.updateValueAndValidity({ onlySelf: true });
+  }
+  form.updateValueAndValidity();
+
+  const subscription = subscribeToValidationConfig(form, options);
+
+  return {
+    fieldWarnings: computed(() => {
+      const warnings = new Map<string, readonly string[]>();
+      for (const [path, control] of attached) {
+        const messages = controlWarningsSignal(control)();
+        if (messages.length) {
+          warnings.set(path, messages);
+        }
+      }
+      return warnings;
+    }),
+    detach: () => {
+      subscription.unsubscribe();
+      for (const [, control, validator] of attached) {
+        control.removeAsyncValidators(validator);
+        controlWarningsSignal(control).set([]);
+      }
+      attached.length = 0;
+    },
+  };
+}
+
+/**
+ * Revalidates dependents when their trigger changes. Dependents are marked as
+ * in progress for a short time, so their own value events do not re-trigger.
+ */
+function subscribeToValidationConfig<T>(
+  form: FormGroup,
+  options: NgxAttachVestSuiteOptions<T>
+): Subscription {
+  const config = options.validationConfig as Record<string, string[]> | null;
+  if (!config) {
+    return Subscription.EMPTY;
+  }
+
+  const inProgress = new Set<string>();
+  const streams = Object.entries(config).map(([trigger, dependents]) => {
+    const triggerControl = form.get(trigger);
+    if (!triggerControl) {
+      if (isDevMode()) {
+        reportDiagnostic(
+          options.diagnostics,
+          NGX_VEST_FORMS_ERRORS.UNKNOWN_CONFIG_TRIGGER,
+          [trigger]
+        );
+      }
+      return EMPTY;
+    }
+    return triggerControl.valueChanges.pipe(
+      filter(() => !inProgress.has(trigger)),
+      debounceTime(options.validationConfigDebounceTime ?? 100),
+      tap(() => {
+        inProgress.add(trigger);
+        for (const dependent of dependents) {
+          const dependentControl = form.get(dependent);
+          if (dependentControl && !inProgress.has(dependent)) {
+            inProgress.add(dependent);
+            dependentControl.updateValueAndValidity({ onlySelf: true });
+          }
+        }
+        setTimeout(() => {
+          inProgress.delete(trigger);
+          for (const dependent of dependents) {
+            inProgress.delete(dependent);
+          }
+        }, VALIDATION_IN_PROGRESS_TIMEOUT_MS);
+      })
+    );
+  });
+
+  return merge(...streams).subscribe();
+}
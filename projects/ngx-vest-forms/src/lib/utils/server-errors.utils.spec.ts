@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyServerErrors,
+  getServerErrorMessages,
+  removeServerErrors,
+} from './server-errors.utils';
+
+describe('server-errors utils', () => {
+  describe('applyServerErrors', () => {
+    it('should create an errors entry when the control has no errors', () => {
+      expect(applyServerErrors(null, ['Email is taken'])).toEqual({
+        errors: ['Email is taken'],
+        serverErrors: ['Email is taken'],
+      });
+    });
+
+    it('should append server messages after existing Vest errors and keep warnings', () => {
+      const result = applyServerErrors(
+        { errors: ['Email is required'], warnings: ['Looks odd'] },
+        ['Email is taken']
+      );
+
+      expect(result).toEqual({
+        errors: ['Email is required', 'Email is taken'],
+        warnings: ['Looks odd'],
+        serverErrors: ['Email is taken'],
+      });
+    });
+
+    it('should replace previously applied server messages', () => {
+      const first = applyServerErrors({ errors: ['Required'] }, ['Old']);
+      const second = applyServerErrors(first, ['New']);
+
+      expect(second).toEqual({
+        errors: ['Required', 'New'],
+        serverErrors: ['New'],
+      });
+    });
+
+    it('should keep non-Vest error keys', () => {
+      expect(applyServerErrors({ required: true }, ['Taken'])).toEqual({
+        required: true,
+        errors: ['Taken'],
+        serverErrors: ['Taken'],
+      });
+    });
+  });
+
+  describe('removeServerErrors', () => {
+    it('should return null when only server errors were present', () => {
+      expect(removeServerErrors(applyServerErrors(null, ['Taken']))).toBeNull();
+    });
+
+    it('should restore the original Vest errors', () => {
+      const merged = applyServerErrors(
+        { errors: ['Required'], warnings: ['Hint'] },
+        ['Taken']
+      );
+
+      expect(removeServerErrors(merged)).toEqual({
+        errors: ['Required'],
+        warnings: ['Hint'],
+      });
+    });
+
+    it('should only remove one occurrence of a message also reported by Vest', () => {
+      const merged = applyServerErrors({ errors: ['Taken'] }, ['Taken']);
+
+      expect(removeServerErrors(merged)).toEqual({ errors: ['Taken'] });
+    });
+
+    it('should drop warnings when no blocking errors remain', () => {
+      expect(
+        removeServerErrors({
+          errors: ['Taken'],
+          warnings: ['Hint'],
+          serverErrors: ['Taken'],
+        })
+      ).toBeNull();
+    });
+  });
+
+  describe('getServerErrorMessages', () => {
+    it('should return an empty array when no server errors are applied', () => {
+      expect(getServerErrorMessages(null)).toEqual([]);
+      expect(getServerErrorMessages({ errors: ['Required'] })).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { ValidationErrors } from '@angular/forms';
+
+const ERROR_MESSAGES_KEY = 'errors';
+const WARNING_MESSAGES_KEY = 'warnings';
+
+/**
+ * Key under which server-side messages are stored in `control.errors`,
+ * next to the merged `errors` array.
+ */
+export const SERVER_ERRORS_KEY = 'serverErrors';
+
+function getStringArray(
+  errors: ValidationErrors | null,
+  key: string
+): string[] {
+  const value = errors?.[key];
+  return Array.isArray(value)
+    ? value.filter((v): v is string => typeof v === 'string')
+    : [];
+}
+
+/**
+ * Removes the first occurrence of every server message from the merged error list.
+ * Duplicates reported by the Vest suite itself are preserved.
+ */
+function withoutMessages(
+  messages: readonly string[],
+  toRemove: readonly string[]
+): string[] {
+  const remaining = [...messages];
+  for (const message of toRemove) {
+    const index = remaining.indexOf(message);
+    if (index !== -1) {
+      remaining.splice(index, 1);
+    }
+  }
+  return remaining;
+}
+
+/**
+ * @internal
+ * Returns the server messages currently merged into a control's errors.
+ */
+export function getServerErrorMessages(
+  errors: ValidationErrors | null
+): string[] {
+  return getStringArray(errors, SERVER_ERRORS_KEY);
+}
+
+/**
+ * @internal
+ * Removes previously merged server messages from a control's errors.
+ *
+ * Warnings are only kept when blocking errors remain, mirroring how
+ * `FormDirective.createAsyncValidator` shapes its results.
+ *
+ * @returns The remaining errors, or `null` when nothing is left.
+ */
+export function removeServerErrors(
+  errors: ValidationErrors | null
+): ValidationErrors | null {
+  if (!errors) {
+    return null;
+  }
+
+  const remaining = withoutMessages(
+    getStringArray(errors, ERROR_MESSAGES_KEY),
+    getServerErrorMessages(errors)
+  );
+  const warnings: unknown = errors[WARNING_MESSAGES_KEY];
+
+  const rest: ValidationErrors = Object.fromEntries(
+    Object.entries(errors).filter(
+      ([key]) =>
+        key !== SERVER_ERRORS_KEY &&
+        key !== ERROR_MESSAGES_KEY &&
+        key !== WARNING_MESSAGES_KEY
+    )
+  );
+
+  if (remaining.length > 0) {
+    return {
+      ...rest,
+      [ERROR_MESSAGES_KEY]: remaining,
+      ...(warnings !== undefined && { [WARNING_MESSAGES_KEY]: warnings }),
+    };
+  }
+
+  return Object.keys(rest).length > 0 ? rest : null;
+}
+
+/**
+ * @internal
+ * Merges server messages into a control's errors.
+ *
+ * Messages are appended to the `errors` array (so every existing consumer such as
+ * `getAllFormErrors` and `FormControlStateDirective.errorMessages` picks them up)
+ * and mirrored under `serverErrors` so they can be told apart and removed later.
+ */
+export function applyServerErrors(
+  errors: ValidationErrors | null,
+  messages: readonly string[]
+): ValidationErrors | null {
+  const base = removeServerErrors(errors);
+  if (messages.length === 0) {
+    return base;
+  }
+
+  return {
+    ...base,
+    [ERROR_MESSAGES_KEY]: [
+      ...getStringArray(base, ERROR_MESSAGES_KEY),
+      ...messages,
+    ],
+    [SERVER_ERRORS_KEY]: [...messages],
+  };
+}
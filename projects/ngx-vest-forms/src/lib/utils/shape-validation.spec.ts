@@ -1,5 +1,9 @@
 import { vi } from 'vitest';
-import { validateShape } from './shape-validation';
+import {
+  collectShapeMismatches,
+  reportShapeMismatches,
+  validateShape,
+} from './shape-validation';
 
 describe('validateShape function', () => {
   let consoleWarnSpy: ReturnType<typeof vi.spyOn>;
@@ -147,6 +151,34 @@ describe('validateShape function', () => {
     });
   });
 
+  describe('returned mismatches', () => {
+    it('should return every reported mismatch with its code and path', () => {
+      const formValue = {
+        nmae: 'John',
+        address: 'Main street',
+        contact: { email: 'john@example.com' },
+      };
+
+      const shape = {
+        name: '',
+        address: '',
+        contact: '',
+      };
+
+      const mismatches = validateShape(formValue, shape);
+
+      expect(mismatches).toEqual([
+        expect.objectContaining({ code: 'NGX-001', path: 'nmae' }),
+        expect.objectContaining({ code: 'NGX-002', path: 'contact' }),
+      ]);
+      expect(consoleWarnSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return an empty list when the value matches the shape', () => {
+      expect(validateShape({ name: 'John' }, { name: '' })).toEqual([]);
+    });
+  });
+
   describe('Date field handling', () => {
     it('should not warn when Date field receives empty string', () => {
       const formValue = {
@@ -401,4 +433,141 @@ describe('validateShape function', () => {
       expect(consoleWarnSpy).not.toHaveBeenCalled();
     });
   });
+
+  describe('primitive type mismatches', () => {
+    it('should report primitives of another kind', () => {
+      const mismatches = validateShape(
+        { age: '30', newsletter: 'yes', birthDate: '2000-01-01', name: 'Jo' },
+        { age: 0, newsletter: false, birthDate: new Date(), name: '' }
+      );
+
+      expect(mismatches.map(({ path, message }) => [path, message])).toEqual([
+        ['age', "Type mismatch at 'age': Expected 'number' but got 'string'."],
+        [
+          'newsletter',
+          "Type mismatch at 'newsletter': Expected 'boolean' but got 'string'.",
+        ],
+        [
+          'birthDate',
+          "Type mismatch at 'birthDate': Expected 'Date' but got 'string'.",
+        ],
+      ]);
+    });
+
+    it('should report a primitive where the shape expects an object', () => {
+      expect(
+        validateShape({ address: 'Main street' }, { address: { street: '' } })
+      ).toEqual([
+        expect.objectContaining({ code: 'NGX-002', path: 'address' }),
+      ]);
+    });
+  });
+
+  describe('array items', () => {
+    it('should check every item against the shape item', () => {
+      const mismatches = validateShape(
+        { items: { '0': { name: 'A' }, '1': { name: 2 }, '2': { nmae: 'C' } } },
+        { items: [{ name: '' }] }
+      );
+
+      expect(mismatches).toEqual([
+        expect.objectContaining({ code: 'NGX-002', path: 'items.1.name' }),
+        expect.objectContaining({ code: 'NGX-001', path: 'items.2.nmae' }),
+      ]);
+    });
+
+    it('should report items that drift from the first item without a shape item', () => {
+      const mismatches = validateShape(
+        { tags: { '0': { label: 'a' }, '1': { label: 'b' }, '2': 'c' } },
+        { tags: [] }
+      );
+
+      expect(mismatches).toEqual([
+        expect.objectContaining({ code: 'NGX-007', path: 'tags.2' }),
+      ]);
+    });
+  });
+
+  describe('missing controls', () => {
+    it('should report shape fields without a registered control', () => {
+      const shape = {
+        name: '',
+        address: { street: '', city: '' },
+        phones: [{ number: '', label: '' }],
+      };
+      const controls = {
+        name: undefined,
+        address: { street: 'Main street' },
+        phones: { '0': { number: '1' }, '1': { number: '2', label: 'work' } },
+      };
+      const formValue = {
+        address: { street: 'Main street', city: 'Ghent' },
+        phones: [
+          { number: '1', label: 'home' },
+          { number: '2', label: 'work' },
+        ],
+      };
+
+      expect(validateShape(formValue, shape, controls)).toEqual([
+        expect.objectContaining({ code: 'NGX-006', path: 'address.city' }),
+        expect.objectContaining({ code: 'NGX-006', path: 'phones.0.label' }),
+      ]);
+    });
+
+    it('should not report shape fields without a value', () => {
+      // Fields in an @if branch that is not rendered have no control and no data
+      const shape = { name: '', details: { reason: '' }, other: '', note: '' };
+      const controls = { name: 'John' };
+      const formValue = { name: 'John', details: { reason: '' }, other: null };
+
+      expect(validateShape(formValue, shape, controls)).toEqual([]);
+    });
+
+    it('should not report missing fields without the controls', () => {
+      expect(validateShape({}, { name: '' })).toEqual([]);
+    });
+  });
+
+  describe('grouped report', () => {
+    it('should log all mismatches in one collapsed console group', () => {
+      const groupSpy = vi
+        .spyOn(console, 'groupCollapsed')
+        .mockImplementation(() => undefined);
+      const groupEndSpy = vi
+        .spyOn(console, 'groupEnd')
+        .mockImplementation(() => undefined);
+
+      validateShape({ nmae: 'John', age: '30' }, { name: '', age: 0 });
+
+      expect(groupSpy).toHaveBeenCalledTimes(1);
+      expect(String(groupSpy.mock.calls[0]?.[0])).toContain(
+        '2 shape mismatches'
+      );
+      expect(
+        consoleWarnSpy.mock.calls.map((call: unknown[]) => call[0])
+      ).toEqual([
+        expect.stringContaining('[NGX-001]'),
+        expect.stringContaining('[NGX-002]'),
+      ]);
+      expect(groupEndSpy).toHaveBeenCalledTimes(1);
+      groupSpy.mockRestore();
+      groupEndSpy.mockRestore();
+    });
+
+    it('should send each mismatch to a custom sink instead', () => {
+      const sink = vi.fn();
+      const mismatches = collectShapeMismatches(
+        { nmae: 'John', age: '30' },
+        { name: '', age: 0 }
+      );
+
+      reportShapeMismatches(mismatches, sink);
+
+      expect(sink.mock.calls.map((call: unknown[]) => call[0])).toEqual([
+        expect.objectContaining({ code: 'NGX-001', severity: 'warning' }),
+        expect.objectContaining({ code: 'NGX-002', severity: 'warning' }),
+      ]);
+      expect(consoleWarnSpy).not.toHaveBeenCalled();
+    });
+  });
 });
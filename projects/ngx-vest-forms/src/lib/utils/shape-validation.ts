@@ -1,40 +1,176 @@
 import { isDevMode } from '@angular/core';
-import { NGX_VEST_FORMS_ERRORS, logWarning } from '../errors/error-catalog';
+import {
+  consoleDiagnosticsSink,
+  createDiagnostic,
+  formatDiagnostic,
+  NGX_VEST_FORMS_ERRORS,
+  NgxDiagnostic,
+  NgxDiagnosticDefinition,
+  NgxDiagnosticsSink,
+} from '../errors/error-catalog';
+
+/**
+ * A difference between the form value and the form shape found by {@link validateShape}.
+ * Its `code` is `NGX-001` extra property, `NGX-002` type mismatch,
+ * `NGX-006` missing control or `NGX-007` array item drift.
+ */
+export type NgxShapeMismatch = NgxDiagnostic & {
+  /** Dotted path of the offending property, e.g. `addresses.0.street` */
+  readonly path: string;
+};
 
 /**
  * Validates a form value against a shape to catch typos in `name` or `ngModelGroup` attributes.
  *
  * **What it checks:**
  * - Extra properties: Keys in formValue that don't exist in shape (likely typos)
- * - Type mismatches: When formValue has an object but shape expects a primitive
+ * - Type mismatches: an object where the shape expects a primitive (or the other
+ *   way around), and primitives of another kind (string vs number vs boolean vs Date)
+ * - Array items: every item against the shape item at its index (or the first one);
+ *   without a shape item, items whose structure drifts from the first item
+ * - Missing controls (only when `controls` is given): shape keys without a
+ *   registered control, e.g. a missing `ngModel`
  *
  * **What it does NOT check:**
- * - Missing properties: Keys in shape that don't exist in formValue
- *   (forms build incrementally with `NgxDeepPartial`, and `@if` conditionally renders fields)
+ * - Missing properties in `formVal`: forms build incrementally with `NgxDeepPartial`,
+ *   so only the registered controls tell whether a field is missing
  *
- * Only runs in development mode.
+ * All mismatches are logged as one grouped console report. Only runs in development mode.
  *
  * @param formVal - The current form value
  * @param shape - The expected shape (created with `NgxDeepRequired<T>`)
+ * @param controls - Raw value of the form's control tree, with a key for every registered control
+ * @returns The reported mismatches (always empty in production mode)
  */
 export function validateShape<
   T extends Record<string, unknown>,
   U extends Record<string, unknown>,
->(formVal: T, shape: U): void {
-  if (isDevMode()) {
-    validateFormValueAgainstShape(formVal, shape);
+>(
+  formVal: T,
+  shape: U,
+  controls?: Record<string, unknown> | null
+): NgxShapeMismatch[] {
+  if (!isDevMode()) {
+    return [];
+  }
+  const mismatches = collectShapeMismatches(formVal, shape, controls);
+  reportShapeMismatches(mismatches);
+  return mismatches;
+}
+
+/**
+ * @internal
+ * Collects the mismatches {@link validateShape} reports, without logging them.
+ */
+export function collectShapeMismatches(
+  formVal: Record<string, unknown>,
+  shape: Record<string, unknown>,
+  controls?: Record<string, unknown> | null
+): NgxShapeMismatch[] {
+  const mismatches: NgxShapeMismatch[] = [];
+  validateFormValueAgainstShape(formVal, shape, mismatches);
+  if (controls) {
+    findMissingControls(controls, shape, formVal, mismatches);
+  }
+  return mismatches;
+}
+
+/**
+ * @internal
+ * Logs mismatches as one collapsed console group, so a form reports once
+ * instead of one warning per property. A custom sink gets every mismatch.
+ */
+export function reportShapeMismatches(
+  mismatches: readonly NgxShapeMismatch[],
+  sink: NgxDiagnosticsSink = consoleDiagnosticsSink
+): void {
+  if (mismatches.length === 0) {
+    return;
   }
+  if (sink !== consoleDiagnosticsSink) {
+    mismatches.forEach(sink);
+    return;
+  }
+  console.groupCollapsed(
+    `[ngx-vest-forms] ${mismatches.length} shape mismatch${mismatches.length === 1 ? '' : 'es'}. Check your [formShape] input, the initial [formValue] and your ngModel names.`
+  );
+  for (const mismatch of mismatches) {
+    console.warn(formatDiagnostic(mismatch));
+  }
+  console.groupEnd();
+}
+
+/**
+ * Adds a mismatch to the collected mismatches.
+ */
+function addMismatch<A extends unknown[]>(
+  mismatches: NgxShapeMismatch[],
+  definition: NgxDiagnosticDefinition<A>,
+  path: string,
+  ...args: A
+): void {
+  mismatches.push({ ...createDiagnostic(definition, args), path });
+}
+
+/**
+ * Kind of a value as named in type mismatch messages.
+ */
+function describeKind(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (value instanceof Date) {
+    return 'Date';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+}
+
+function isNumericKey(key: string): boolean {
+  return !isNaN(parseFloat(key));
+}
+
+function isNested(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' && value !== null && !(value instanceof Date)
+  );
+}
+
+/**
+ * Whether a value holds array items: an array, or a group keyed by index.
+ */
+function isArrayLike(value: Record<string, unknown>): boolean {
+  const keys = Object.keys(value);
+  return Array.isArray(value) || (keys.length > 0 && keys.every(isNumericKey));
+}
+
+/**
+ * Structure of an array item, compared between items to detect drift.
+ */
+function describeStructure(value: unknown): string {
+  return isNested(value)
+    ? `{${Object.keys(value).sort().join(',')}}`
+    : describeKind(value);
 }
 
 /**
  * Recursively validates form value keys against the shape.
- * Reports warnings for extra properties and type mismatches.
+ * Reports extra properties, type mismatches and array item drift.
  */
 function validateFormValueAgainstShape(
   formValue: Record<string, unknown>,
   shape: Record<string, unknown>,
+  mismatches: NgxShapeMismatch[],
   path = ''
 ): void {
+  // Array items without a shape item: compare their structure with the first item
+  if (Object.keys(shape).length === 0 && isArrayLike(formValue)) {
+    reportArrayItemDrift(formValue, mismatches, path);
+    return;
+  }
+
   for (const key of Object.keys(formValue)) {
     const value = formValue[key];
     const fieldPath = path ? `${path}.${key}` : key;
@@ -44,44 +180,164 @@ function validateFormValueAgainstShape(
       continue;
     }
 
-    // For array items (numeric keys > 0), compare against the first item in shape
-    // since we only define one example item in the shape for arrays
-    const isNumericKey = !isNaN(parseFloat(key));
-    const shapeKey = isNumericKey && parseFloat(key) > 0 ? '0' : key;
+    // Array items are compared against the shape item at the same index,
+    // or the first one, since shapes usually define one example item
+    const numericKey = isNumericKey(key);
+    const shapeKey = numericKey && !(key in shape) ? '0' : key;
     const shapeValue = shape?.[shapeKey];
 
-    // Skip Date fields receiving empty strings (common in date picker libraries)
-    if (shapeValue instanceof Date && value === '') {
+    // Extra property: key exists in formValue but not in shape (likely a typo)
+    if (!(shapeKey in shape)) {
+      if (!numericKey) {
+        addMismatch(
+          mismatches,
+          NGX_VEST_FORMS_ERRORS.EXTRA_PROPERTY,
+          fieldPath,
+          fieldPath
+        );
+      }
       continue;
     }
 
-    // Handle object values (recurse into nested objects)
-    if (typeof value === 'object') {
-      // Type mismatch: formValue has object, but shape expects primitive
-      if (
-        !isNumericKey &&
-        (typeof shapeValue !== 'object' || shapeValue === null)
-      ) {
-        logWarning(
+    // Nested objects: recurse, unless the shape expects a primitive
+    if (isNested(value)) {
+      if (isNested(shapeValue)) {
+        validateFormValueAgainstShape(value, shapeValue, mismatches, fieldPath);
+      } else if (shapeValue != null) {
+        addMismatch(
+          mismatches,
           NGX_VEST_FORMS_ERRORS.TYPE_MISMATCH,
           fieldPath,
-          'primitive',
-          'object'
+          fieldPath,
+          describeKind(shapeValue),
+          describeKind(value)
         );
       }
+      continue;
+    }
+
+    // Skip Date fields receiving empty strings (common in date picker libraries)
+    if (shapeValue instanceof Date && value === '') {
+      continue;
+    }
+
+    // Primitives (and Dates) must match the kind of the shape value
+    const expected = describeKind(shapeValue);
+    const actual = describeKind(value);
+    if (shapeValue != null && expected !== actual) {
+      addMismatch(
+        mismatches,
+        NGX_VEST_FORMS_ERRORS.TYPE_MISMATCH,
+        fieldPath,
+        fieldPath,
+        expected,
+        actual
+      );
+    }
+  }
+}
+
+/**
+ * Reports array items whose structure differs from the first item.
+ */
+function reportArrayItemDrift(
+  items: Record<string, unknown>,
+  mismatches: NgxShapeMismatch[],
+  path: string
+): void {
+  const [firstKey, ...otherKeys] = Object.keys(items).filter(
+    (key) => items[key] != null
+  );
+  if (firstKey === undefined) {
+    return;
+  }
+  const firstPath = path ? `${path}.${firstKey}` : firstKey;
+  const expected = describeStructure(items[firstKey]);
+  for (const key of otherKeys) {
+    if (describeStructure(items[key]) !== expected) {
+      const itemPath = path ? `${path}.${key}` : key;
+      addMismatch(
+        mismatches,
+        NGX_VEST_FORMS_ERRORS.ARRAY_ITEM_DRIFT,
+        itemPath,
+        itemPath,
+        firstPath
+      );
+    }
+  }
+}
 
-      // Recurse into nested object
-      validateFormValueAgainstShape(
-        value as Record<string, unknown>,
-        (shapeValue as Record<string, unknown>) ?? {},
+/**
+ * Whether a form value holds data: anything but `undefined`, `null` and `''`,
+ * looking into nested objects.
+ */
+function hasData(value: unknown): boolean {
+  if (isNested(value)) {
+    return Object.values(value).some(hasData);
+  }
+  return value !== undefined && value !== null && value !== '';
+}
+
+/**
+ * Reports shape keys whose value holds data but has no registered control, so
+ * the next `formValueChange` would drop it. Keys without data are skipped:
+ * fields in an `@if` branch that is not rendered have no control either.
+ * Array items in the shape are only checked against the items that have controls.
+ */
+function findMissingControls(
+  controls: Record<string, unknown>,
+  shape: Record<string, unknown>,
+  value: unknown,
+  mismatches: NgxShapeMismatch[],
+  path = ''
+): void {
+  if (!isNested(value)) {
+    return;
+  }
+  const hasItemShape = '0' in shape;
+  for (const key of Object.keys(shape)) {
+    if (hasItemShape && isNumericKey(key)) {
+      continue;
+    }
+    if (!hasData(value[key])) {
+      continue;
+    }
+    const fieldPath = path ? `${path}.${key}` : key;
+    if (!(key in controls)) {
+      addMismatch(
+        mismatches,
+        NGX_VEST_FORMS_ERRORS.MISSING_CONTROL,
+        fieldPath,
         fieldPath
       );
       continue;
     }
+    const shapeValue = shape[key];
+    const controlValue = controls[key];
+    if (isNested(shapeValue) && isNested(controlValue)) {
+      findMissingControls(
+        controlValue,
+        shapeValue,
+        value[key],
+        mismatches,
+        fieldPath
+      );
+    }
+  }
 
-    // Extra property: key exists in formValue but not in shape (likely a typo)
-    if (!isNumericKey && shape && !(shapeKey in shape)) {
-      logWarning(NGX_VEST_FORMS_ERRORS.EXTRA_PROPERTY, fieldPath);
+  if (hasItemShape) {
+    for (const key of Object.keys(controls).filter(isNumericKey)) {
+      const item = controls[key];
+      const itemShape = shape[key] ?? shape['0'];
+      if (isNested(item) && isNested(itemShape)) {
+        findMissingControls(
+          item,
+          itemShape,
+          value[key],
+          mismatches,
+          path ? `${path}.${key}` : key
+        );
+      }
     }
   }
 }
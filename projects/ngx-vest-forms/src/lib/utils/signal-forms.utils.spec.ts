@@ -0,0 +1,104 @@
+import { signal } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { form, validateTree } from '@angular/forms/signals';
+import { enforce, only, staticSuite, test as vestTest, warn } from 'vest';
+import { describe, expect, it } from 'vitest';
+import { ROOT_FORM } from '../constants';
+import { createVestSignalFormsBridge } from './signal-forms.utils';
+
+type SignupModel = {
+  email: string;
+  password: string;
+  addresses: { street: string }[];
+};
+
+const signupSuite = staticSuite((model: SignupModel, field?: string) => {
+  only(field);
+  vestTest('email', 'Email is required', () => {
+    enforce(model.email).isNotBlank();
+  });
+  vestTest('password', 'Use at least 12 characters', () => {
+    warn();
+    enforce(model.password).longerThanOrEquals(12);
+  });
+  model.addresses.forEach((address, index) => {
+    vestTest(`addresses.${index}.street`, 'Street is required', () => {
+      enforce(address.street).isNotBlank();
+    });
+  });
+  vestTest(ROOT_FORM, 'Add an address', () => {
+    enforce(model.addresses.length).greaterThan(0);
+  });
+});
+
+function createSignupForm(initial: SignupModel) {
+  return TestBed.runInInjectionContext(() => {
+    const model = signal(initial);
+    const bridge = createVestSignalFormsBridge(signupSuite, model);
+    const signupForm = form(model, (path) => {
+      validateTree(path, bridge.validator);
+    });
+    return { model, bridge, signupForm };
+  });
+}
+
+describe('signal-forms utils', () => {
+  describe('createVestSignalFormsBridge', () => {
+    it('should attach Vest errors to the matching fields', () => {
+      const { signupForm } = createSignupForm({
+        email: '',
+        password: 'secret',
+        addresses: [{ street: '' }],
+      });
+
+      expect(signupForm().valid()).toBe(false);
+      expect(signupForm.email().errors()).toEqual([
+        expect.objectContaining({
+          kind: 'vest',
+          message: 'Email is required',
+          field: 'email',
+        }),
+      ]);
+      expect(signupForm.addresses[0]?.street().errors()).toEqual([
+        expect.objectContaining({
+          message: 'Street is required',
+          field: 'addresses[0].street',
+        }),
+      ]);
+    });
+
+    it('should keep ROOT_FORM errors on the root field', () => {
+      const { signupForm } = createSignupForm({
+        email: 'jane@example.com',
+        password: 'secret',
+        addresses: [],
+      });
+
+      expect(signupForm().errors()).toEqual([
+        expect.objectContaining({
+          message: 'Add an address',
+          field: ROOT_FORM,
+        }),
+      ]);
+    });
+
+    it('should expose warnings without making fields invalid', () => {
+      const { model, bridge, signupForm } = createSignupForm({
+        email: 'jane@example.com',
+        password: 'secret',
+        addresses: [{ street: 'Main street' }],
+      });
+
+      expect(signupForm().valid()).toBe(true);
+      expect(bridge.warnings()).toEqual({
+        password: ['Use at least 12 characters'],
+      });
+
+      model.update((value) => ({
+        ...value,
+        password: 'correct horse battery',
+      }));
+      expect(bridge.warnings()).toEqual({});
+    });
+  });
+});
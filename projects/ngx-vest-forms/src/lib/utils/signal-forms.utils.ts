@@ -0,0 +1,156 @@
+import { computed, Signal } from '@angular/core';
+// Type-only imports: Signal Forms are experimental (Angular 21+), so the bridge
+// must not add a runtime dependency on '@angular/forms/signals'.
+import type {
+  FieldTree,
+  TreeValidationResult,
+  TreeValidator,
+  ValidationError,
+} from '@angular/forms/signals';
+import { ROOT_FORM } from '../constants';
+import {
+  isUnsafePathSegment,
+  parseFieldPath,
+  stringifyFieldPath,
+} from './field-path.utils';
+import { NgxTypedVestSuite, NgxVestSuite } from './validation-suite';
+
+/**
+ * Signal Forms validation error produced by a Vest test.
+ */
+export type NgxVestSignalFormsError = ValidationError.WithOptionalFieldTree & {
+  readonly kind: 'vest';
+  readonly message: string;
+  /** Field path in `formState().errors` notation, e.g. `addresses[0].street` */
+  readonly field: string;
+};
+
+/**
+ * Connects a Vest suite to an Angular Signal Forms field tree.
+ */
+export type NgxVestSignalFormsBridge<T> = {
+  /**
+   * Tree validator for the root schema path:
+   * `validateTree(path, bridge.validator)`.
+   *
+   * Errors are attached to the field matching the Vest field name
+   * (`addresses.0.street` → `form.addresses[0].street`). `ROOT_FORM` errors and
+   * errors of fields that are not part of the model stay on the root field.
+   */
+  readonly validator: TreeValidator<T>;
+  /**
+   * Warnings of the current model keyed by field path. Warnings never make a
+   * field invalid, so they are kept out of the Signal Forms errors.
+   */
+  readonly warnings: Signal<Record<string, string[]>>;
+};
+
+type NgxVestSuiteResult = ReturnType<NgxVestSuite>;
+
+/**
+ * Lets a Vest suite written for `ngxVestForm` validate an Angular Signal Forms
+ * (`form()` from `@angular/forms/signals`) field tree, so one suite serves both
+ * template-driven and signal-form screens.
+ *
+ * The suite runs once per model value for all fields (`only(undefined)`), the
+ * result is shared by `validator` and `warnings`. Async tests only report their
+ * outcome through a new run; prefer `validateAsync` for async Signal Forms rules.
+ *
+ * @example
+ * ```typescript
+ * readonly model = signal<UserModel>({ email: '', password: '' });
+ * readonly vest = createVestSignalFormsBridge(userSuite, this.model);
+ * readonly userForm = form(this.model, (path) => {
+ *   validateTree(path, this.vest.validator);
+ * });
+ * ```
+ *
+ * @param suite - The same suite used with `[suite]` on `ngxVestForm`
+ * @param model - The model signal passed to `form()`
+ */
+export function createVestSignalFormsBridge<T>(
+  suite: NgxTypedVestSuite<T> | NgxVestSuite<T>,
+  model: Signal<T>
+): NgxVestSignalFormsBridge<T> {
+  const runSuite = suite as NgxVestSuite<T>;
+  // Signal Forms replace the model object on every change, so caching by
+  // value lets the validator and warnings share one suite run.
+  const results = new WeakMap<object, NgxVestSuiteResult>();
+  const run = (value: T): NgxVestSuiteResult => {
+    if (value === null || typeof value !== 'object') {
+      return runSuite(value);
+    }
+    let result = results.get(value);
+    if (!result) {
+      result = runSuite(value);
+      results.set(value, result);
+    }
+    return result;
+  };
+
+  return {
+    validator: ({ value, fieldTree }) =>
+      toSignalFormsErrors(run(value()).getErrors(), fieldTree),
+    warnings: computed(() => normalizeFieldKeys(run(model()).getWarnings())),
+  };
+}
+
+/**
+ * @internal
+ * Maps Vest errors to Signal Forms errors targeting the matching child field.
+ */
+export function toSignalFormsErrors(
+  errors: Record<string, string[]>,
+  root: FieldTree<unknown>
+): TreeValidationResult<NgxVestSignalFormsError> {
+  const result: NgxVestSignalFormsError[] = [];
+  for (const [field, messages] of Object.entries(errors)) {
+    const fieldTree =
+      field === ROOT_FORM ? undefined : resolveFieldTree(root, field);
+    for (const message of messages) {
+      result.push({
+        kind: 'vest',
+        message,
+        field: stringifyFieldPath(parseFieldPath(field)),
+        ...(fieldTree && { fieldTree }),
+      });
+    }
+  }
+  return result;
+}
+
+/**
+ * @internal
+ * Walks a field tree along a Vest field name (`addresses.0.street` or
+ * `addresses[0].street`). Returns `undefined` when the path does not exist.
+ */
+export function resolveFieldTree(
+  root: FieldTree<unknown>,
+  field: string
+): FieldTree<unknown> | undefined {
+  let current: unknown = root;
+  for (const segment of parseFieldPath(field)) {
+    if (isUnsafePathSegment(segment)) {
+      return undefined;
+    }
+    current = (current as Record<string | number, unknown> | undefined)?.[
+      segment
+    ];
+    if (current === undefined) {
+      return undefined;
+    }
+  }
+  return current as FieldTree<unknown>;
+}
+
+function normalizeFieldKeys(
+  messages: Record<string, string[]>
+): Record<string, string[]> {
+  const result: Record<string, string[]> = {};
+  for (const [field, fieldMessages] of Object.entries(messages)) {
+    if (fieldMessages.length) {
+      result[stringifyFieldPath(parseFieldPath(field))] = fieldMessages;
+    }
+  }
+  return result;
+}
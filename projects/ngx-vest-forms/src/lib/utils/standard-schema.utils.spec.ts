@@ -0,0 +1,174 @@
+import { enforce, test as vestTest } from 'vest';
+import { describe, expect, it } from 'vitest';
+import { ROOT_FORM } from '../constants';
+import {
+  createStandardSchemaInitialValue,
+  createStandardSchemaShape,
+  createStandardSchemaSuite,
+  NgxStandardSchema,
+  NgxStandardSchemaIssue,
+} from './standard-schema.utils';
+
+type UserModel = {
+  email?: string;
+  password?: string;
+  confirmPassword?: string;
+  newsletter?: boolean;
+  addresses?: { street?: string; zip?: number }[];
+};
+
+/**
+ * Hand-written Standard Schema, standing in for a Zod/Valibot/ArkType schema.
+ */
+function createUserSchema(
+  jsonSchema?: Record<string, unknown>
+): NgxStandardSchema<UserModel> {
+  return {
+    '~standard': {
+      version: 1,
+      vendor: 'test',
+      validate: (value) => {
+        const model = value as UserModel;
+        const issues: NgxStandardSchemaIssue[] = [];
+        if (!model.email?.includes('@')) {
+          issues.push({ message: 'Invalid email', path: ['email'] });
+        }
+        model.addresses?.forEach((address, index) => {
+          if (!address.street) {
+            issues.push({
+              message: 'Street is required',
+              path: ['addresses', { key: index }, 'street'],
+            });
+          }
+        });
+        if (model.email === 'admin@example.com') {
+          issues.push({ message: 'Reserved account' });
+        }
+        return issues.length ? { issues } : { value: model };
+      },
+      ...(jsonSchema && { jsonSchema: { input: () => jsonSchema } }),
+    },
+  };
+}
+
+const userJsonSchema = {
+  type: 'object',
+  properties: {
+    email: { type: 'string', format: 'email' },
+    password: { type: 'string' },
+    confirmPassword: { type: 'string' },
+    newsletter: { type: 'boolean', default: true },
+    role: { anyOf: [{ type: 'null' }, { enum: ['admin', 'user'] }] },
+    addresses: { type: 'array', items: { $ref: '#/$defs/Address' } },
+  },
+  $defs: {
+    Address: {
+      type: 'object',
+      properties: {
+        street: { type: 'string' },
+        zip: { type: 'integer' },
+        country: { type: 'string', default: 'NL' },
+      },
+    },
+  },
+};
+
+describe('standard-schema.utils', () => {
+  describe('createStandardSchemaSuite', () => {
+    it('should turn schema issues into Vest errors per field path', () => {
+      const suite = createStandardSchemaSuite(createUserSchema());
+
+      const result = suite({ email: 'jane', addresses: [{ street: '' }] });
+
+      expect(result.getErrors()).toEqual({
+        email: ['Invalid email'],
+        'addresses.0.street': ['Street is required'],
+      });
+    });
+
+    it('should report issues without a path on ROOT_FORM', () => {
+      const suite = createStandardSchemaSuite(createUserSchema());
+
+      expect(suite({ email: 'admin@example.com' }).getErrors()).toEqual({
+        [ROOT_FORM]: ['Reserved account'],
+      });
+    });
+
+    it('should run hand-written tests and honour the field', () => {
+      const suite = createStandardSchemaSuite(createUserSchema(), (model) => {
+        vestTest('confirmPassword', 'Passwords do not match', () => {
+          enforce(model.confirmPassword).equals(model.password);
+        });
+      });
+      const model = { email: 'jane', password: 'a', confirmPassword: 'b' };
+
+      expect(suite(model, 'confirmPassword').getErrors()).toEqual({
+        confirmPassword: ['Passwords do not match'],
+      });
+      expect(suite(model, 'email').getErrors()).toEqual({
+        email: ['Invalid email'],
+      });
+    });
+
+    it('should reject async schemas', () => {
+      const schema = createUserSchema();
+      const suite = createStandardSchemaSuite<UserModel>({
+        '~standard': {
+          ...schema['~standard'],
+          validate: async (value) => schema['~standard'].validate(value),
+        },
+      });
+
+      expect(() => suite({})).toThrow('[NGX-004]');
+    });
+  });
+
+  describe('createStandardSchemaShape', () => {
+    it('should derive a form shape from the JSON Schema', () => {
+      expect(
+        createStandardSchemaShape(createUserSchema(userJsonSchema))
+      ).toEqual({
+        email: '',
+        password: '',
+        confirmPassword: '',
+        newsletter: false,
+        role: 'admin',
+        addresses: [{ street: '', zip: 0, country: '' }],
+      });
+    });
+
+    it('should stop at recursive references', () => {
+      const schema = createUserSchema({
+        $ref: '#/$defs/Node',
+        $defs: {
+          Node: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              child: { $ref: '#/$defs/Node' },
+            },
+          },
+        },
+      });
+
+      expect(createStandardSchemaShape(schema)).toEqual({
+        name: '',
+        child: {},
+      });
+    });
+
+    it('should throw without a JSON Schema converter', () => {
+      expect(() => createStandardSchemaShape(createUserSchema())).toThrow(
+        '[NGX-005]'
+      );
+    });
+  });
+
+  describe('createStandardSchemaInitialValue', () => {
+    it('should collect schema defaults', () => {
+      expect(
+        createStandardSchemaInitialValue(createUserSchema(userJsonSchema))
+      ).toEqual({ newsletter: true });
+    });
+  });
+});
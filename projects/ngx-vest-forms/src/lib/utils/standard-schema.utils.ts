@@ -0,0 +1,331 @@
+import { only, staticSuite, test } from 'vest';
+import { ROOT_FORM } from '../constants';
+import {
+  createDiagnostic,
+  formatDiagnostic,
+  NGX_VEST_FORMS_ERRORS,
+  NgxDiagnosticDefinition,
+} from '../errors/error-catalog';
+import { NgxDeepPartial } from './deep-partial';
+import { NgxDeepRequired } from './deep-required';
+import { FormFieldName } from './field-path-types';
+import { isUnsafePathSegment } from './field-path.utils';
+import { NgxTypedVestSuite } from './validation-suite';
+
+/**
+ * A problem reported by a Standard Schema.
+ */
+export type NgxStandardSchemaIssue = {
+  readonly message: string;
+  /** Path of the offending value; missing or empty for the value as a whole */
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+};
+
+/**
+ * Outcome of `schema['~standard'].validate()`.
+ */
+export type NgxStandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: readonly NgxStandardSchemaIssue[] };
+
+/**
+ * The part of the [Standard Schema](https://standardschema.dev) interface
+ * ngx-vest-forms relies on. Zod, Valibot and ArkType schemas satisfy it, so the
+ * library needs no dependency on a schema library.
+ *
+ * `jsonSchema` is the optional Standard JSON Schema converter. It is only needed
+ * to derive a form shape or initial value from the schema.
+ */
+export type NgxStandardSchema<Input = unknown, Output = Input> = {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) =>
+      | NgxStandardSchemaResult<Output>
+      | Promise<NgxStandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+    readonly jsonSchema?: {
+      readonly input: (options: {
+        readonly target: string;
+      }) => Record<string, unknown>;
+    };
+  };
+};
+
+/**
+ * The JSON Schema keywords used to derive shapes and initial values.
+ */
+type JsonSchemaNode = {
+  readonly type?: string | readonly string[];
+  readonly properties?: Record<string, JsonSchemaNode>;
+  readonly items?: JsonSchemaNode;
+  readonly anyOf?: readonly JsonSchemaNode[];
+  readonly oneOf?: readonly JsonSchemaNode[];
+  readonly allOf?: readonly JsonSchemaNode[];
+  readonly $ref?: string;
+  readonly $defs?: Record<string, JsonSchemaNode>;
+  readonly definitions?: Record<string, JsonSchemaNode>;
+  readonly const?: unknown;
+  readonly enum?: readonly unknown[];
+  readonly default?: unknown;
+};
+
+/**
+ * Creates a Vest suite from a Standard Schema, so schema rules and extra Vest
+ * tests live in one suite.
+ *
+ * Every schema issue becomes a failing Vest test for its path (`addresses.0.street`);
+ * issues without a path are reported on `ROOT_FORM`. The suite calls `only(field)`
+ * itself, so `tests` must not call it again.
+ *
+ * Only synchronous schemas are supported: keep async rules (e.g. uniqueness checks)
+ * in `tests`, where they get the suite's abort signal.
+ *
+ * @example
+ * ```typescript
+ * const userSchema = z.object({
+ *   email: z.email(),
+ *   password: z.string().min(12),
+ *   confirmPassword: z.string(),
+ * });
+ * type UserModel = z.input<typeof userSchema>;
+ *
+ * export const userSuite = createStandardSchemaSuite(userSchema, (model) => {
+ *   test('confirmPassword', 'Passwords do not match', () => {
+ *     enforce(model.confirmPassword).equals(model.password);
+ *   });
+ * });
+ * ```
+ *
+ * @param schema - Any Standard Schema v1 compliant schema
+ * @param tests - Hand-written Vest tests, run after the schema tests
+ */
+export function createStandardSchemaSuite<T>(
+  schema: NgxStandardSchema<T, unknown>,
+  tests?: (
+    model: T,
+    field?: FormFieldName<T>,
+    group?: string,
+    signal?: AbortSignal
+  ) => void
+): NgxTypedVestSuite<T> {
+  return staticSuite(
+    (
+      model: T,
+      field?: FormFieldName<T>,
+      group?: string,
+      signal?: AbortSignal
+    ) => {
+      only(field);
+
+      const result = schema['~standard'].validate(model);
+      if (result instanceof Promise) {
+        throw schemaError(NGX_VEST_FORMS_ERRORS.ASYNC_SCHEMA, schema);
+      }
+      for (const issue of result.issues ?? []) {
+        test(getIssueField(issue), issue.message, () => false);
+      }
+
+      tests?.(model, field, group, signal);
+    }
+  );
+}
+
+/**
+ * Derives a `formShape` from a Standard Schema with a JSON Schema converter,
+ * instead of maintaining an `NgxDeepRequired<T>` object by hand.
+ *
+ * Strings become `''`, numbers `0`, booleans `false` and arrays hold one example
+ * item. For unions the first non-null variant is used.
+ *
+ * @example
+ * ```typescript
+ * protected readonly shape = createStandardSchemaShape(userSchema);
+ * ```
+ *
+ * @throws When the schema has no Standard JSON Schema converter
+ */
+export function createStandardSchemaShape<T>(
+  schema: NgxStandardSchema<T, unknown>
+): NgxDeepRequired<T> {
+  const root = toJsonSchema(schema);
+  return (deriveShape(root, root, new Set()) ?? {}) as NgxDeepRequired<T>;
+}
+
+/**
+ * Derives an initial form value from the `default` values of a Standard Schema
+ * with a JSON Schema converter. Fields without a default are left out, like any
+ * other `NgxDeepPartial<T>` form value.
+ *
+ * @example
+ * ```typescript
+ * protected readonly formValue = signal(createStandardSchemaInitialValue(userSchema));
+ * ```
+ *
+ * @throws When the schema has no Standard JSON Schema converter
+ */
+export function createStandardSchemaInitialValue<T>(
+  schema: NgxStandardSchema<T, unknown>
+): NgxDeepPartial<T> {
+  const root = toJsonSchema(schema);
+  return (deriveInitialValue(root, root, new Set()) ?? {}) as NgxDeepPartial<T>;
+}
+
+/**
+ * @internal
+ * Vest field name of an issue: its path in dot notation, or `ROOT_FORM`.
+ */
+export function getIssueField(issue: NgxStandardSchemaIssue): string {
+  const segments = (issue.path ?? []).map((segment) =>
+    String(typeof segment === 'object' ? segment.key : segment)
+  );
+  return segments.length ? segments.join('.') : ROOT_FORM;
+}
+
+function schemaError(
+  definition: NgxDiagnosticDefinition<[vendor: string]>,
+  schema: NgxStandardSchema<unknown, unknown>
+): Error {
+  const diagnostic = createDiagnostic(definition, [schema['~standard'].vendor]);
+  return new Error(
+    `${formatDiagnostic(diagnostic)} ${diagnostic.hint} See ${diagnostic.docsUrl}`
+  );
+}
+
+function toJsonSchema(schema: NgxStandardSchema<unknown, unknown>) {
+  const converter = schema['~standard'].jsonSchema;
+  if (!converter) {
+    throw schemaError(NGX_VEST_FORMS_ERRORS.MISSING_JSON_SCHEMA, schema);
+  }
+  return converter.input({ target: 'draft-2020-12' }) as JsonSchemaNode;
+}
+
+/**
+ * Follows local `$ref`s and picks the first non-null union variant.
+ * Returns `undefined` for a reference that is already being resolved (recursion).
+ */
+function resolveNode(
+  node: JsonSchemaNode,
+  root: JsonSchemaNode,
+  refs: Set<string>
+): { node: JsonSchemaNode; refs: Set<string> } | undefined {
+  if (node.$ref) {
+    const name = /^#\/(?:\$defs|definitions)\/(.+)$/.exec(node.$ref)?.[1];
+    const target = name
+      ? (root.$defs?.[name] ?? root.definitions?.[name])
+      : node.$ref === '#'
+        ? root
+        : undefined;
+    if (!target || refs.has(node.$ref)) {
+      return undefined;
+    }
+    return resolveNode(target, root, new Set(refs).add(node.$ref));
+  }
+  const variant = (node.anyOf ?? node.oneOf)?.find(
+    (option) => option.type !== 'null'
+  );
+  return variant ? resolveNode(variant, root, refs) : { node, refs };
+}
+
+function getType(node: JsonSchemaNode): string | undefined {
+  if (Array.isArray(node.type)) {
+    return node.type.find((type) => type !== 'null');
+  }
+  if (typeof node.type === 'string') {
+    return node.type;
+  }
+  return node.properties || node.allOf ? 'object' : undefined;
+}
+
+/**
+ * Properties of an object node, including those of its `allOf` parts.
+ * Prototype-polluting keys are skipped.
+ */
+function getProperties(
+  node: JsonSchemaNode,
+  root: JsonSchemaNode,
+  refs: Set<string>
+): Array<[string, JsonSchemaNode]> {
+  const parts = (node.allOf ?? []).map(
+    (part) => resolveNode(part, root, refs)?.node
+  );
+  return [node, ...parts].flatMap((part) =>
+    Object.entries(part?.properties ?? {}).filter(
+      ([key]) => !isUnsafePathSegment(key)
+    )
+  );
+}
+
+function deriveShape(
+  schemaNode: JsonSchemaNode,
+  root: JsonSchemaNode,
+  schemaRefs: Set<string>
+): unknown {
+  const resolved = resolveNode(schemaNode, root, schemaRefs);
+  if (!resolved) {
+    return {};
+  }
+  const { node, refs } = resolved;
+  if (node.const !== undefined) {
+    return node.const;
+  }
+  if (node.enum?.length) {
+    return node.enum[0];
+  }
+
+  switch (getType(node)) {
+    case 'string':
+      return '';
+    case 'number':
+    case 'integer':
+      return 0;
+    case 'boolean':
+      return false;
+    case 'null':
+      return null;
+    case 'array':
+      return node.items ? [deriveShape(node.items, root, refs)] : [];
+    case 'object': {
+      const shape: Record<string, unknown> = {};
+      for (const [key, property] of getProperties(node, root, refs)) {
+        shape[key] = deriveShape(property, root, refs);
+      }
+      return shape;
+    }
+    default:
+      // Unconstrained values (e.g. `z.unknown()`) accept anything
+      return {};
+  }
+}
+
+function deriveInitialValue(
+  schemaNode: JsonSchemaNode,
+  root: JsonSchemaNode,
+  schemaRefs: Set<string>
+): unknown {
+  if (schemaNode.default !== undefined) {
+    return structuredClone(schemaNode.default);
+  }
+  const resolved = resolveNode(schemaNode, root, schemaRefs);
+  if (!resolved) {
+    return undefined;
+  }
+  const { node, refs } = resolved;
+  if (node.default !== undefined) {
+    return structuredClone(node.default);
+  }
+  if (getType(node) !== 'object') {
+    return undefined;
+  }
+
+  const value: Record<string, unknown> = {};
+  for (const [key, property] of getProperties(node, root, refs)) {
+    const initial = deriveInitialValue(property, root, refs);
+    if (initial !== undefined) {
+      value[key] = initial;
+    }
+  }
+  return Object.keys(value).length ? value : undefined;
+}
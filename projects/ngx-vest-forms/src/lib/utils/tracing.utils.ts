@@ -0,0 +1,84 @@
+/**
+ * How the bidirectional `formValue` sync resolved one change:
+ * - `'form-to-model'`: the form changed while the model did not (yet), the form wins
+ * - `'model-to-form'`: the model changed programmatically and was patched into the form
+ * - `'converged'`: both changed to the same value, e.g. after `formValueChange`
+ *   updated the model, nothing to copy
+ * - `'conflict'`: both changed to different values, the form keeps its value
+ */
+export type NgxTraceSyncDecision =
+  | 'form-to-model'
+  | 'model-to-form'
+  | 'converged'
+  | 'conflict';
+
+/**
+ * Structured event emitted to `NGX_VEST_FORMS_TRACER`. Every event carries the
+ * `Date.now()` time it was emitted at.
+ */
+export type NgxTraceEvent = { readonly timestamp: number } & (
+  | {
+      /** A field validator started its Vest suite run */
+      readonly type: 'suite-run-start';
+      readonly field: string;
+      readonly group?: string;
+    }
+  | {
+      /** A field's Vest suite run finished (`done()` fired, including async tests) */
+      readonly type: 'suite-run-finish';
+      readonly field: string;
+      readonly group?: string;
+      readonly durationMs: number;
+      readonly errors: readonly string[];
+      readonly warnings: readonly string[];
+    }
+  | {
+      /** A `validationConfig` trigger changed and its dependents were revalidated */
+      readonly type: 'dependency-trigger';
+      readonly trigger: string;
+      readonly dependents: readonly string[];
+      /** Dependents that were revalidated; the others are missing or already in progress */
+      readonly revalidated: readonly string[];
+    }
+  | {
+      /** The `formValue` input and the form values were reconciled */
+      readonly type: 'sync';
+      readonly decision: NgxTraceSyncDecision;
+    }
+  | {
+      /** `resetForm()` was called */
+      readonly type: 'reset';
+      readonly value: unknown;
+    }
+  | {
+      /** A submit settled, after pending async validation */
+      readonly type: 'submit';
+      readonly valid: boolean;
+    }
+  | {
+      /** `ngxValidateRootForm` ran the suite for `ROOT_FORM` */
+      readonly type: 'root-form-validation';
+      readonly durationMs: number;
+      readonly errors: readonly string[];
+    }
+);
+
+/**
+ * Receives every {@link NgxTraceEvent}, e.g. to log, record in tests or feed a timeline UI.
+ */
+export type NgxVestFormsTracer = (event: NgxTraceEvent) => void;
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+  ? Omit<T, K>
+  : never;
+
+/**
+ * @internal
+ * Stamps an event with the current time and hands it to the tracer, if any.
+ */
+export function emitTraceEvent(
+  tracer: NgxVestFormsTracer | null,
+  event: DistributiveOmit<NgxTraceEvent, 'timestamp'>
+): void {
+  tracer?.({ ...event, timestamp: Date.now() } as NgxTraceEvent);
+}
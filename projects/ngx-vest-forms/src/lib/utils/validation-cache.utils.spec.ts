@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createValidationCache,
+  validationCacheKey,
+} from './validation-cache.utils';
+
+const taken = { errors: { errors: ['Username is taken'] }, warnings: [] };
+
+describe('validation-cache.utils', () => {
+  describe('validationCacheKey', () => {
+    it('should differ when the value, a dependency or the group differs', () => {
+      const key = validationCacheKey('jane', ['NL'], undefined);
+
+      expect(validationCacheKey('jane', ['NL'], undefined)).toBe(key);
+      expect(validationCacheKey('janet', ['NL'], undefined)).not.toBe(key);
+      expect(validationCacheKey('jane', ['BE'], undefined)).not.toBe(key);
+      expect(validationCacheKey('jane', ['NL'], 'step1')).not.toBe(key);
+    });
+  });
+
+  describe('createValidationCache', () => {
+    it('should return results until their ttl expires', () => {
+      let time = 1000;
+      const cache = createValidationCache(() => time);
+      cache.set('username', 'jane', taken, 500);
+
+      expect(cache.get('username', 'jane')).toEqual(taken);
+      expect(cache.get('username', 'janet')).toBeUndefined();
+      expect(cache.get('email', 'jane')).toBeUndefined();
+
+      time = 1500;
+      expect(cache.get('username', 'jane')).toBeUndefined();
+    });
+
+    it('should not store results without a positive ttl', () => {
+      const cache = createValidationCache();
+      cache.set('username', 'jane', taken, 0);
+
+      expect(cache.get('username', 'jane')).toBeUndefined();
+    });
+
+    it('should clear given fields or everything', () => {
+      const cache = createValidationCache();
+      cache.set('username', 'jane', taken, 500);
+      cache.set('vatNumber', 'NL123', { errors: null, warnings: [] }, 500);
+
+      cache.clear(['username']);
+      expect(cache.get('username', 'jane')).toBeUndefined();
+      expect(cache.get('vatNumber', 'NL123')).toBeDefined();
+
+      cache.clear();
+      expect(cache.get('vatNumber', 'NL123')).toBeUndefined();
+    });
+  });
+});
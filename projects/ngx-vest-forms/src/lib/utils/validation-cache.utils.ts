@@ -0,0 +1,91 @@
+import { ValidationErrors } from '@angular/forms';
+
+/**
+ * Vest result of one field, as kept by the validation cache.
+ */
+export type NgxCachedValidationResult = {
+  /** What the validator returned: `{ errors, warnings? }` or `null` */
+  readonly errors: ValidationErrors | null;
+  readonly warnings: readonly string[];
+};
+
+/**
+ * @internal
+ * Per-field cache of Vest results, keyed by the values a run depended on.
+ */
+export type NgxValidationCache = {
+  get(field: string, key: string): NgxCachedValidationResult | undefined;
+  set(
+    field: string,
+    key: string,
+    result: NgxCachedValidationResult,
+    ttl: number
+  ): void;
+  /** Drops the entries of the given fields, or of all fields when omitted */
+  clear(fields?: readonly string[]): void;
+};
+
+type CacheEntry = NgxCachedValidationResult & { readonly expiresAt: number };
+
+/**
+ * @internal
+ * Builds the cache key of a run from the field value, the values of the fields
+ * it depends on and the active validation group.
+ */
+export function validationCacheKey(
+  value: unknown,
+  dependencyValues: readonly unknown[],
+  group: string | undefined
+): string {
+  return JSON.stringify([value, dependencyValues, group ?? null]);
+}
+
+/**
+ * @internal
+ * Creates an empty {@link NgxValidationCache}. Expired entries are dropped on access.
+ *
+ * @param now - Clock in milliseconds, replaceable in tests
+ */
+export function createValidationCache(
+  now: () => number = Date.now
+): NgxValidationCache {
+  const entries = new Map<string, Map<string, CacheEntry>>();
+
+  return {
+    get(field, key) {
+      const fieldEntries = entries.get(field);
+      const entry = fieldEntries?.get(key);
+      if (!entry) {
+        return undefined;
+      }
+      if (entry.expiresAt <= now()) {
+        fieldEntries?.delete(key);
+        return undefined;
+      }
+      return { errors: entry.errors, warnings: entry.warnings };
+    },
+    set(field, key, result, ttl) {
+      if (ttl <= 0) {
+        return;
+      }
+      const time = now();
+      const fieldEntries = entries.get(field) ?? new Map<string, CacheEntry>();
+      for (const [entryKey, entry] of fieldEntries) {
+        if (entry.expiresAt <= time) {
+          fieldEntries.delete(entryKey);
+        }
+      }
+      fieldEntries.set(key, { ...result, expiresAt: time + ttl });
+      entries.set(field, fieldEntries);
+    },
+    clear(fields) {
+      if (!fields) {
+        entries.clear();
+        return;
+      }
+      for (const field of fields) {
+        entries.delete(field);
+      }
+    },
+  };
+}
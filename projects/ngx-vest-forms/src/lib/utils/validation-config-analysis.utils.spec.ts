@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ROOT_FORM } from '../constants';
+import { NgxDiagnostic } from '../errors/error-catalog';
+import {
+  analyzeValidationConfig,
+  reportValidationConfigAnalysis,
+} from './validation-config-analysis.utils';
+import { createValidationConfig } from './validation-config-builder';
+
+type Model = {
+  password?: string;
+  confirmPassword?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  addresses?: { street?: string; zip?: string }[];
+};
+
+const shape = {
+  password: '',
+  confirmPassword: '',
+  email: '',
+  phone: '',
+  address: '',
+  addresses: [{ street: '', zip: '' }],
+};
+
+describe('analyzeValidationConfig', () => {
+  it('should resolve the graph in both directions', () => {
+    const analysis = analyzeValidationConfig({
+      password: ['confirmPassword'],
+      email: ['confirmPassword', 'phone'],
+    });
+
+    expect(analysis.graph).toEqual({
+      confirmPassword: {
+        revalidates: [],
+        revalidatedBy: ['password', 'email'],
+      },
+      email: { revalidates: ['confirmPassword', 'phone'], revalidatedBy: [] },
+      password: { revalidates: ['confirmPassword'], revalidatedBy: [] },
+      phone: { revalidates: [], revalidatedBy: ['email'] },
+    });
+  });
+
+  it('should find one-way cycles longer than two fields once', () => {
+    const analysis = analyzeValidationConfig({
+      phone: ['email'],
+      email: ['address'],
+      address: ['phone'],
+    });
+
+    expect(analysis.cycles).toEqual([['address', 'phone', 'email']]);
+  });
+
+  it('should not report bidirectional pairs and groups', () => {
+    const config = createValidationConfig<Model>()
+      .bidirectional('password', 'confirmPassword')
+      .group(['email', 'phone', 'address'])
+      .build();
+
+    expect(analyzeValidationConfig(config).cycles).toEqual([]);
+  });
+
+  it('should report fields missing from the shape', () => {
+    const analysis = analyzeValidationConfig(
+      {
+        pasword: ['confirmPassword'],
+        'addresses.0.street': ['addresses.1.zip', 'addresses.0.city'],
+        email: [ROOT_FORM],
+      },
+      shape
+    );
+
+    expect(analysis.unknownFields).toEqual(['addresses.0.city', 'pasword']);
+  });
+
+  it('should not report unknown fields without a shape', () => {
+    expect(
+      analyzeValidationConfig({ pasword: ['confirmPassword'] }).unknownFields
+    ).toEqual([]);
+  });
+
+  it('should report cycles and unknown fields as diagnostics', () => {
+    const sink = vi.fn<(diagnostic: NgxDiagnostic) => void>();
+    const analysis = analyzeValidationConfig(
+      { phone: ['email'], email: ['address'], address: ['phone', 'fax'] },
+      shape
+    );
+
+    reportValidationConfigAnalysis(analysis, sink);
+
+    expect(sink.mock.calls.map(([diagnostic]) => diagnostic.message)).toEqual([
+      expect.stringContaining('address → phone → email → address'),
+      expect.stringContaining("'fax'"),
+    ]);
+    expect(sink.mock.calls.map(([diagnostic]) => diagnostic.code)).toEqual([
+      'NGX-019',
+      'NGX-020',
+    ]);
+  });
+});
@@ -0,0 +1,194 @@
+import { ROOT_FORM } from '../constants';
+import {
+  NGX_VEST_FORMS_ERRORS,
+  NgxDiagnosticsSink,
+  reportDiagnostic,
+} from '../errors/error-catalog';
+import { parseFieldPath } from './field-path.utils';
+
+/**
+ * The edges of one field in a `validationConfig` graph.
+ */
+export type NgxValidationConfigNode = {
+  /** Fields revalidated when this field changes */
+  readonly revalidates: readonly string[];
+  /** Fields whose changes revalidate this field */
+  readonly revalidatedBy: readonly string[];
+};
+
+/**
+ * Result of {@link analyzeValidationConfig}.
+ */
+export type NgxValidationConfigAnalysis = {
+  /** Every field of the config with its edges in both directions, sorted by path */
+  readonly graph: Readonly<Record<string, NgxValidationConfigNode>>;
+  /**
+   * Dependency cycles longer than two fields with at least one one-way step,
+   * e.g. `['a', 'b', 'c']` for a → b → c → a. Bidirectional pairs and
+   * `group()` fields revalidate each other on purpose and are not reported.
+   */
+  readonly cycles: ReadonlyArray<readonly string[]>;
+  /** Triggers and dependents that are not part of the form shape (needs a shape) */
+  readonly unknownFields: readonly string[];
+};
+
+/**
+ * Analyzes a `validationConfig` so large configs stay debuggable: resolves the
+ * dependency graph, finds cycles beyond simple bidirectional pairs and, with a
+ * form shape, fields that do not exist.
+ *
+ * `ngxVestForm` runs it in development mode and reports the findings as
+ * `NGX-019` (cycle) and `NGX-020` (unknown field). Dependents that never render
+ * are reported at runtime as `NGX-013` once their trigger waited 2 seconds.
+ *
+ * @example
+ * ```typescript
+ * const analysis = analyzeValidationConfig(validationConfig, formShape);
+ * console.table(analysis.graph);
+ * ```
+ *
+ * @param config - The `validationConfig` to analyze
+ * @param shape - The form shape; without it no fields are reported as unknown
+ */
+export function analyzeValidationConfig(
+  config: Readonly<Record<string, readonly string[] | undefined>> | null,
+  shape?: Record<string, unknown> | null
+): NgxValidationConfigAnalysis {
+  const edges = new Map<string, Set<string>>();
+  const reverse = new Map<string, Set<string>>();
+  const addField = (field: string) => {
+    if (!edges.has(field)) {
+      edges.set(field, new Set());
+      reverse.set(field, new Set());
+    }
+  };
+  for (const [trigger, dependents] of Object.entries(config ?? {})) {
+    addField(trigger);
+    for (const dependent of dependents ?? []) {
+      addField(dependent);
+      if (dependent !== trigger) {
+        edges.get(trigger)?.add(dependent);
+        reverse.get(dependent)?.add(trigger);
+      }
+    }
+  }
+
+  const fields = [...edges.keys()].sort();
+  const graph: Record<string, NgxValidationConfigNode> = {};
+  for (const field of fields) {
+    graph[field] = {
+      revalidates: [...(edges.get(field) ?? [])],
+      revalidatedBy: [...(reverse.get(field) ?? [])],
+    };
+  }
+
+  return {
+    graph,
+    cycles: findOneWayCycles(edges),
+    unknownFields: shape
+      ? fields.filter(
+          (field) => field !== ROOT_FORM && !hasShapePath(shape, field)
+        )
+      : [],
+  };
+}
+
+/**
+ * @internal
+ * Reports the cycles and unknown fields of an analysis as diagnostics.
+ */
+export function reportValidationConfigAnalysis(
+  analysis: NgxValidationConfigAnalysis,
+  sink?: NgxDiagnosticsSink | null
+): void {
+  for (const cycle of analysis.cycles) {
+    reportDiagnostic(sink, NGX_VEST_FORMS_ERRORS.VALIDATION_CONFIG_CYCLE, [
+      cycle,
+    ]);
+  }
+  for (const field of analysis.unknownFields) {
+    reportDiagnostic(sink, NGX_VEST_FORMS_ERRORS.UNKNOWN_CONFIG_FIELD, [field]);
+  }
+}
+
+/**
+ * Finds, for every one-way edge u → v, the shortest way back from v to u.
+ * Cycles made only of two-way edges are intended (`bidirectional()`, `group()`).
+ * Each cycle is reported once, starting at its smallest field.
+ */
+function findOneWayCycles(
+  edges: ReadonlyMap<string, ReadonlySet<string>>
+): string[][] {
+  const cycles = new Map<string, string[]>();
+  for (const [from, targets] of edges) {
+    for (const to of targets) {
+      if (edges.get(to)?.has(from)) {
+        continue;
+      }
+      const back = findShortestPath(edges, to, from);
+      if (!back) {
+        continue;
+      }
+      // back = [to, ..., from]; the cycle is from → to → ... → from
+      const cycle = [from, ...back.slice(0, -1)];
+      const start = cycle.indexOf([...cycle].sort()[0] ?? from);
+      const canonical = [...cycle.slice(start), ...cycle.slice(0, start)];
+      cycles.set(canonical.join('\u0000'), canonical);
+    }
+  }
+  return [...cycles.values()];
+}
+
+function findShortestPath(
+  edges: ReadonlyMap<string, ReadonlySet<string>>,
+  from: string,
+  to: string
+): string[] | undefined {
+  const previous = new Map<string, string>();
+  const queue = [from];
+  const visited = new Set([from]);
+  while (queue.length) {
+    const field = queue.shift() as string;
+    if (field === to) {
+      const path = [to];
+      while (path[0] !== from) {
+        path.unshift(previous.get(path[0] as string) as string);
+      }
+      return path;
+    }
+    for (const next of edges.get(field) ?? []) {
+      if (!visited.has(next)) {
+        visited.add(next);
+        previous.set(next, field);
+        queue.push(next);
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether a field path exists in a form shape. Array indexes match the shape
+ * item at that index, or the first one; empty objects and arrays accept anything.
+ */
+function hasShapePath(shape: Record<string, unknown>, path: string): boolean {
+  let node: unknown = shape;
+  for (const segment of parseFieldPath(path)) {
+    if (typeof node !== 'object' || node === null) {
+      return false;
+    }
+    const record = node as Record<string, unknown>;
+    if (Object.keys(record).length === 0) {
+      return true;
+    }
+    const key = String(segment);
+    if (Object.hasOwn(record, key)) {
+      node = record[key];
+    } else if (typeof segment === 'number' && Object.hasOwn(record, '0')) {
+      node = record['0'];
+    } else {
+      return false;
+    }
+  }
+  return true;
+}
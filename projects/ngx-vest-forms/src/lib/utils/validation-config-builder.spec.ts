@@ -123,7 +123,7 @@ describe('ValidationConfigBuilder', () => {
 
         expect(consoleWarnSpy).toHaveBeenCalledWith(
           expect.stringContaining(
-            '[ngx-vest-forms] ValidationConfigBuilder: Duplicate dependencies detected'
+            '[ngx-vest-forms] [NGX-017] ValidationConfigBuilder: Duplicate dependencies detected'
           )
         );
         expect(consoleWarnSpy).toHaveBeenCalledWith(
@@ -258,7 +258,7 @@ describe('ValidationConfigBuilder', () => {
 
         expect(consoleWarnSpy).toHaveBeenCalledWith(
           expect.stringContaining(
-            '[ngx-vest-forms] ValidationConfigBuilder: Duplicate bidirectional relationship detected'
+            '[ngx-vest-forms] [NGX-018] ValidationConfigBuilder: Duplicate bidirectional relationship detected'
           )
         );
         expect(consoleWarnSpy).toHaveBeenCalledWith(
@@ -1,9 +1,13 @@
+import {
+  consoleDiagnosticsSink,
+  NGX_VEST_FORMS_ERRORS,
+  reportDiagnostic,
+} from '../errors/error-catalog';
 import type { FieldPath, ValidationConfigMap } from './field-path-types';
 
 // NOTE: `typeof ngDevMode !== 'undefined' && ngDevMode` is kept inline
 // (not extracted to a helper) because Angular's build optimizer relies on
 // this exact pattern for tree-shaking dev-only code from production bundles.
-const LOG_PREFIX = '[ngx-vest-forms] ValidationConfigBuilder';
 
 /**
  * Fluent builder for creating type-safe validation configurations.
@@ -97,11 +101,10 @@ export class ValidationConfigBuilder<T> {
     if (typeof ngDevMode !== 'undefined' && ngDevMode) {
       const duplicates = deps.filter((d) => existing.includes(d));
       if (duplicates.length > 0) {
-        console.warn(
-          `${LOG_PREFIX}: Duplicate dependencies detected.\n` +
-            `  Trigger: '${trigger}'\n` +
-            `  Duplicates: ${duplicates.map((d) => `'${d}'`).join(', ')}\n` +
-            `  These will be automatically deduplicated.`
+        reportDiagnostic(
+          consoleDiagnosticsSink,
+          NGX_VEST_FORMS_ERRORS.DUPLICATE_DEPENDENCY,
+          [String(trigger), duplicates]
         );
       }
     }
@@ -176,10 +179,10 @@ export class ValidationConfigBuilder<T> {
         this.config[field2]?.includes(field1 as string) ?? false;
 
       if (hasField1ToField2 && hasField2ToField1) {
-        console.warn(
-          `${LOG_PREFIX}: Duplicate bidirectional relationship detected.\n` +
-            `  Fields: '${field1}' ↔ '${field2}'\n` +
-            `  This bidirectional relationship was already configured.`
+        reportDiagnostic(
+          consoleDiagnosticsSink,
+          NGX_VEST_FORMS_ERRORS.DUPLICATE_BIDIRECTIONAL,
+          [String(field1), String(field2)]
         );
       }
     }
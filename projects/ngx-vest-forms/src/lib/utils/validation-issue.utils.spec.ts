@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { messageWithParams } from './error-message.utils';
+import {
+  collectValidationIssues,
+  createValidationIssues,
+} from './validation-issue.utils';
+
+describe('validation-issue utils', () => {
+  describe('createValidationIssues', () => {
+    it('should split key and params and normalize the field path', () => {
+      expect(
+        createValidationIssues(
+          null,
+          'items.0.name',
+          [messageWithParams('errors.minLength', { min: 2 })],
+          'error'
+        )
+      ).toEqual([
+        {
+          message: messageWithParams('errors.minLength', { min: 2 }),
+          severity: 'error',
+          field: 'items[0].name',
+          testName: 'items.0.name',
+          key: 'errors.minLength',
+          params: { min: 2 },
+        },
+      ]);
+    });
+
+    it('should format the message with the formatter', () => {
+      const [issue] = createValidationIssues(
+        ({ message, params, kind }) => `${kind}:${message}:${params['min']}`,
+        'password',
+        [messageWithParams('hints.length', { min: 8 })],
+        'warning'
+      );
+
+      expect(issue?.message).toBe('warning:hints.length:8');
+      expect(issue?.key).toBe('hints.length');
+    });
+  });
+
+  describe('collectValidationIssues', () => {
+    it('should list errors, attached warnings and warnings-only fields once', () => {
+      const emailMessages = ['Email is required'];
+      Object.defineProperty(emailMessages, 'warnings', {
+        value: ['Use your work email'],
+        enumerable: false,
+      });
+
+      const issues = collectValidationIssues(
+        null,
+        { email: emailMessages },
+        new Map([
+          ['email', ['Use your work email']],
+          ['phones.0', ['Add a country code']],
+        ])
+      );
+
+      expect(
+        issues.map(({ field, severity, message }) => [field, severity, message])
+      ).toEqual([
+        ['email', 'error', 'Email is required'],
+        ['email', 'warning', 'Use your work email'],
+        ['phones[0]', 'warning', 'Add a country code'],
+      ]);
+    });
+  });
+});
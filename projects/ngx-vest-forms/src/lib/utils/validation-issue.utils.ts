@@ -0,0 +1,106 @@
+import {
+  formatMessage,
+  NgxErrorMessageFormatter,
+  parseMessageWithParams,
+} from './error-message.utils';
+import { parseFieldPath, stringifyFieldPath } from './field-path.utils';
+
+/**
+ * Severity of a validation issue. Errors make the field invalid, warnings do not.
+ */
+export type NgxValidationIssueSeverity = 'error' | 'warning';
+
+/**
+ * Structured form of a validation message, so UI can group, dedupe, style by
+ * severity and link to docs without parsing strings.
+ */
+export type NgxValidationIssue = {
+  /** Displayed message, formatted with `NGX_ERROR_MESSAGE_FORMATTER` when one is provided */
+  readonly message: string;
+  /** Whether the issue is a blocking error or a warning */
+  readonly severity: NgxValidationIssueSeverity;
+  /** Field path in `formState().errors` notation, e.g. `addresses[0].street` */
+  readonly field: string;
+  /**
+   * Name of the Vest test: the field name passed to `test()`, which is the field
+   * path in dotted notation (e.g. `addresses.0.street`)
+   */
+  readonly testName: string;
+  /** Message key as emitted by the suite, without params encoded by `messageWithParams` */
+  readonly key: string;
+  /** Params encoded with `messageWithParams` (empty object otherwise) */
+  readonly params: Readonly<Record<string, unknown>>;
+};
+
+/**
+ * @internal
+ * Builds issues for the messages of one field. `path` is passed to the formatter
+ * unchanged, so `message` matches the string form shown for the same field.
+ */
+export function createValidationIssues(
+  formatter: NgxErrorMessageFormatter | null,
+  path: string,
+  messages: readonly string[],
+  severity: NgxValidationIssueSeverity
+): NgxValidationIssue[] {
+  const segments = parseFieldPath(path);
+  const field = stringifyFieldPath(segments);
+  const testName = segments.join('.');
+
+  return messages.map((raw) => {
+    const { message: key, params } = parseMessageWithParams(raw);
+    return {
+      message: formatter
+        ? formatMessage(formatter, {
+            path,
+            message: key,
+            params,
+            kind: severity,
+          })
+        : raw,
+      severity,
+      field,
+      testName,
+      key,
+      params,
+    };
+  });
+}
+
+/**
+ * @internal
+ * Builds the issues of a whole form from an errors map (as returned by
+ * `getAllFormErrors`, with non-enumerable `warnings`) and the warnings of fields
+ * without errors. Each field's errors are followed by its warnings.
+ */
+export function collectValidationIssues(
+  formatter: NgxErrorMessageFormatter | null,
+  errors: Record<string, string[]>,
+  warnings: ReadonlyMap<string, readonly string[]>
+): NgxValidationIssue[] {
+  const issues: NgxValidationIssue[] = [];
+  const fieldsWithWarnings = new Set<string>();
+
+  for (const [path, messages] of Object.entries(errors)) {
+    issues.push(...createValidationIssues(formatter, path, messages, 'error'));
+    const fieldWarnings = (messages as string[] & { warnings?: string[] })
+      .warnings;
+    if (fieldWarnings?.length) {
+      fieldsWithWarnings.add(path);
+      issues.push(
+        ...createValidationIssues(formatter, path, fieldWarnings, 'warning')
+      );
+    }
+  }
+
+  for (const [field, messages] of warnings) {
+    const path = stringifyFieldPath(parseFieldPath(field));
+    if (!fieldsWithWarnings.has(path)) {
+      issues.push(
+        ...createValidationIssues(formatter, path, messages, 'warning')
+      );
+    }
+  }
+
+  return issues;
+}
@@ -54,7 +54,7 @@ export type NgxFieldKey<T> = Extract<keyof T, string> | (string & {});
  *
  * **What it wraps:**
  * ```typescript
- * StaticSuite<string, string, (model: T, field?: string) => void>
+ * StaticSuite<string, string, (model: T, field?: string, group?: string, signal?: AbortSignal) => void>
  * ```
  *
  * **Type parameters explained:**
@@ -68,6 +68,20 @@ export type NgxFieldKey<T> = Extract<keyof T, string> | (string & {});
  * - Nested paths like 'addresses.billing.street'
  * - undefined to run all tests
  *
+ * **Group parameter:**
+ * The optional third argument is the active validation group of the field
+ * (from `ngxValidationGroup` or the form's `validationGroup` input).
+ * Use it to skip tests that do not belong to the current step.
+ *
+ * **Abort signal parameter:**
+ * The optional fourth argument is an `AbortSignal` for the current run. It aborts
+ * when the run becomes stale: the control value changed again, the field was
+ * revalidated (e.g. by `validationConfig`), or the form was destroyed. Hand it to
+ * `fetch`/`HttpClient` calls in async tests so outdated requests are cancelled.
+ * Results of an aborted run are ignored. Vest's per-test `signal` only aborts when
+ * the same test reruns within one suite instance, which never happens for a
+ * `staticSuite`.
+ *
  * **Bivariance for template compatibility:**
  * The callback type uses a bivariant method parameter trick to make
  * `NgxVestSuite<SpecificModel>` assignable to `NgxVestSuite<unknown>` in
@@ -161,8 +175,13 @@ type NgxSuiteCallback<T> = {
   // that uses `FormFieldName<T>`. Using `unknown` (safer) or even `string`
   // breaks production builds because `string` is not assignable to
   // `FormFieldName<T>` (a string-literal union of known paths).
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  bivarianceHack(model: T, field?: any): void;
+  bivarianceHack(
+    model: T,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    field?: any,
+    group?: string,
+    signal?: AbortSignal
+  ): void;
 }['bivarianceHack'];
 
 export type NgxVestSuite<T = unknown> = StaticSuite<
@@ -210,7 +229,12 @@ export type NgxVestSuite<T = unknown> = StaticSuite<
  */
 /** @internal Do not use outside ngx-vest-forms. */
 type NgxTypedSuiteCallback<T> = {
-  bivarianceHack(model: T, field?: FormFieldName<T>): void;
+  bivarianceHack(
+    model: T,
+    field?: FormFieldName<T>,
+    group?: string,
+    signal?: AbortSignal
+  ): void;
 }['bivarianceHack'];
 
 export type NgxTypedVestSuite<T> = StaticSuite<
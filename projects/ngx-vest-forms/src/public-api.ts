@@ -14,6 +14,11 @@ export type {
 } from './lib/utils/deep-required';
 /** @deprecated Use ROOT_FORM from 'ngx-vest-forms' instead */
 export { ROOT_FORM as ROOT_FORM_CONSTANT } from './lib/utils/field-path-types';
+export type {
+  NgxDevtoolsSnapshot,
+  NgxDevtoolsSuiteRun,
+  NgxDevtoolsTriggerRun,
+} from './lib/utils/devtools.utils';
 export type {
   FieldPath,
   FieldPathValue,
@@ -23,11 +28,18 @@ export type {
   ValidationConfigMap,
 } from './lib/utils/field-path-types';
 export { createEmptyFormState } from './lib/utils/form-state.utils';
-export type { NgxFormState } from './lib/utils/form-state.utils';
+export type {
+  NgxFormState,
+  NgxValidationGroupState,
+} from './lib/utils/form-state.utils';
 export {
   ValidationConfigBuilder,
   createValidationConfig,
 } from './lib/utils/validation-config-builder';
+export type {
+  NgxValidationIssue,
+  NgxValidationIssueSeverity,
+} from './lib/utils/validation-issue.utils';
 export type {
   NgxFieldKey,
   NgxTypedVestSuite,
@@ -35,6 +47,16 @@ export type {
 } from './lib/utils/validation-suite';
 
 // Form utilities
+export {
+  NGX_VEST_FORMS_ERRORS,
+  consoleDiagnosticsSink,
+} from './lib/errors/error-catalog';
+export type {
+  NgxDiagnostic,
+  NgxDiagnosticDefinition,
+  NgxDiagnosticSeverity,
+  NgxDiagnosticsSink,
+} from './lib/errors/error-catalog';
 export {
   arrayToObject,
   deepArrayToObject,
@@ -47,12 +69,66 @@ export {
 } from './lib/utils/field-clearing';
 export { stringifyFieldPath } from './lib/utils/field-path.utils';
 export { setValueAtPath } from './lib/utils/form-utils';
+export { messageWithParams } from './lib/utils/error-message.utils';
+export type {
+  NgxErrorMessageContext,
+  NgxErrorMessageFormatter,
+} from './lib/utils/error-message.utils';
+export {
+  createIndexedDbPersistence,
+  createLocalStoragePersistence,
+  createSessionStoragePersistence,
+} from './lib/utils/form-persist.utils';
+export type {
+  NgxFormPersistMigration,
+  NgxFormPersistStorage,
+  NgxPersistedFormState,
+} from './lib/utils/form-persist.utils';
 export { createDebouncedPendingState } from './lib/utils/pending-state.utils';
 export type {
   DebouncedPendingStateOptions,
   DebouncedPendingStateResult,
 } from './lib/utils/pending-state.utils';
 export { validateShape } from './lib/utils/shape-validation';
+export type { NgxShapeMismatch } from './lib/utils/shape-validation';
+export {
+  createStandardSchemaInitialValue,
+  createStandardSchemaShape,
+  createStandardSchemaSuite,
+} from './lib/utils/standard-schema.utils';
+export type {
+  NgxStandardSchema,
+  NgxStandardSchemaIssue,
+  NgxStandardSchemaResult,
+} from './lib/utils/standard-schema.utils';
+export type {
+  NgxTraceEvent,
+  NgxTraceSyncDecision,
+  NgxVestFormsTracer,
+} from './lib/utils/tracing.utils';
+export { analyzeValidationConfig } from './lib/utils/validation-config-analysis.utils';
+export type {
+  NgxValidationConfigAnalysis,
+  NgxValidationConfigNode,
+} from './lib/utils/validation-config-analysis.utils';
+
+// Reactive Forms support
+export {
+  attachVestSuite,
+  vestValidator,
+} from './lib/utils/reactive-forms.utils';
+export type {
+  NgxAttachVestSuiteOptions,
+  NgxVestSuiteRef,
+  NgxVestValidatorOptions,
+} from './lib/utils/reactive-forms.utils';
+
+// Signal Forms bridge (Angular 21+, experimental)
+export { createVestSignalFormsBridge } from './lib/utils/signal-forms.utils';
+export type {
+  NgxVestSignalFormsBridge,
+  NgxVestSignalFormsError,
+} from './lib/utils/signal-forms.utils';
 
 // ARIA association utilities
 export {
@@ -91,26 +167,67 @@ export {
   NGX_WARNING_DISPLAY_MODE_TOKEN,
   SC_ERROR_DISPLAY_MODE_TOKEN,
 } from './lib/directives/error-display-mode.token';
+export {
+  NGX_VEST_FORMS_CONFIG,
+  provideNgxVestForms,
+} from './lib/tokens/config.token';
+export type { NgxVestFormsConfig } from './lib/tokens/config.token';
 export { NGX_VALIDATION_CONFIG_DEBOUNCE_TOKEN } from './lib/tokens/debounce.token';
+export { NGX_VEST_FORMS_DIAGNOSTICS_SINK } from './lib/tokens/diagnostics-sink.token';
+export { NGX_ERROR_MESSAGE_FORMATTER } from './lib/tokens/error-message-formatter.token';
+export { NGX_FORM_PERSIST_STORAGE } from './lib/tokens/form-persist.token';
+export { NGX_VEST_FORMS_TRACER } from './lib/tokens/tracer.token';
 
 // Components
 export { ControlWrapperComponent } from './lib/components/control-wrapper/control-wrapper.component';
+export { FormDevtoolsComponent } from './lib/components/form-devtools/form-devtools.component';
+export type { NgxDevtoolsControlRow } from './lib/components/form-devtools/form-devtools.component';
+export { FormErrorSummaryComponent } from './lib/components/form-error-summary/form-error-summary.component';
+export type { NgxFormErrorSummaryItem } from './lib/components/form-error-summary/form-error-summary.component';
 export { FormGroupWrapperComponent } from './lib/components/form-group-wrapper/form-group-wrapper.component';
 
 // Directives
+export { FieldArrayDirective } from './lib/directives/field-array.directive';
+export type { NgxFieldArrayContext } from './lib/directives/field-array.directive';
 export { FormControlStateDirective } from './lib/directives/form-control-state.directive';
+export type {
+  FormControlState,
+  FormControlStatus,
+  VestValidationErrors,
+} from './lib/directives/form-control-state.directive';
 export { FormErrorControlDirective } from './lib/directives/form-error-control.directive';
 export { FormErrorDisplayDirective } from './lib/directives/form-error-display.directive';
 export type {
+  NgxDisplayModeContext,
+  NgxDisplayModePredicate,
   NgxWarningDisplayMode,
   ScErrorDisplayMode,
 } from './lib/directives/form-error-display.directive';
+export { FormPersistDirective } from './lib/directives/form-persist.directive';
 export { FormModelGroupDirective } from './lib/directives/form-model-group.directive';
 export { FormModelDirective } from './lib/directives/form-model.directive';
 export { FormDirective } from './lib/directives/form.directive';
-export type { NgxValidationConfig } from './lib/directives/form.directive';
+export type {
+  NgxInvalidSubmitBehavior,
+  NgxShapeValidationMode,
+  NgxValidationConfig,
+} from './lib/directives/form.directive';
+export {
+  ErrorTemplateDirective,
+  PendingTemplateDirective,
+  WarningTemplateDirective,
+} from './lib/directives/message-templates.directive';
+export type { NgxMessageTemplateContext } from './lib/directives/message-templates.directive';
 export { ValidateRootFormDirective } from './lib/directives/validate-root-form.directive';
-export type { ValidationOptions } from './lib/directives/validation-options';
+export { ValidationGroupDirective } from './lib/directives/validation-group.directive';
+export type {
+  NgxFieldValidationPolicy,
+  NgxValidationCacheOptions,
+  NgxValidationPolicy,
+  NgxValidationPolicyMap,
+  NgxValidationUpdateOn,
+  ValidationOptions,
+} from './lib/directives/validation-options';
 export {
   DEFAULT_FOCUS_SELECTOR,
   DEFAULT_INVALID_SELECTOR,